@@ -0,0 +1,70 @@
+import { PopplerDiagnostic, DiagnosticLevel } from './types';
+
+/**
+ * Poppler's error categories with the code and level they are reported under
+ * (errorCategoryNames in poppler's Error.cc)
+ */
+const CATEGORIES: Record<string, { code: string; level: DiagnosticLevel }> = {
+  'syntax warning': { code: 'syntax-warning', level: 'warning' },
+  'syntax error': { code: 'syntax-error', level: 'error' },
+  'config error': { code: 'config-error', level: 'error' },
+  'command line error': { code: 'command-line-error', level: 'error' },
+  'i/o error': { code: 'io-error', level: 'error' },
+  'permission error': { code: 'permission-error', level: 'error' },
+  'unimplemented feature': { code: 'unimplemented', level: 'warning' },
+  'internal error': { code: 'internal-error', level: 'error' },
+};
+
+/** "<Category> (<offset>): <message>" or "<Category>: <message>" */
+const LINE_PATTERN = /^([A-Za-z/ ]+?)(?: \((-?\d+)\))?: (.*)$/;
+
+/** Messages about fonts replaced by others */
+const FONT_SUBSTITUTION_PATTERN = /couldn't find a font|substitut/i;
+
+/**
+ * Parse poppler's stderr into diagnostics
+ * Poppler reports problems it recovered from on stderr even when it exits
+ * successfully. Lines in poppler's "Category (offset): message" format keep
+ * their category as code; font substitutions get the code 'font-substitution',
+ * and any other non-empty lines (e.g., from fontconfig) 'other'.
+ *
+ * @param stderr - Output of a poppler binary on stderr
+ * @param page - Page the run covered, if it rendered a single page
+ * @returns Diagnostics in the order they were printed
+ *
+ * @example
+ * ```typescript
+ * parseDiagnostics('Syntax Error (1234): Illegal character');
+ * // [{ level: 'error', code: 'syntax-error', offset: 1234, message: 'Illegal character' }]
+ * ```
+ */
+export function parseDiagnostics(stderr: string, page?: number): PopplerDiagnostic[] {
+  const diagnostics: PopplerDiagnostic[] = [];
+
+  for (const line of stderr.split(/\r?\n/)) {
+    const text = line.trim();
+    if (!text) continue;
+
+    const match = text.match(LINE_PATTERN);
+    const category = match ? CATEGORIES[match[1].toLowerCase()] : undefined;
+    const diagnostic: PopplerDiagnostic = category
+      ? { level: category.level, code: category.code, message: match![3] }
+      : { level: 'warning', code: 'other', message: text };
+
+    if (FONT_SUBSTITUTION_PATTERN.test(diagnostic.message)) {
+      diagnostic.level = 'warning';
+      diagnostic.code = 'font-substitution';
+    }
+    // Poppler prints no offset (or -1) when the position is unknown
+    const offset = category && match![2] !== undefined ? parseInt(match![2], 10) : -1;
+    if (offset >= 0) {
+      diagnostic.offset = offset;
+    }
+    if (page !== undefined) {
+      diagnostic.page = page;
+    }
+    diagnostics.push(diagnostic);
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,168 @@
+import * as os from 'os';
+import * as fs from 'fs';
+import { ErrorRule, ErrorRuleContext } from './types';
+import {
+  PdfPopplerError,
+  InvalidPdfError,
+  EncryptedPdfError,
+  IncorrectPasswordError,
+  BinaryNotFoundError,
+  BinaryNotExecutableError,
+  TempDirectoryError,
+} from './errors';
+
+/**
+ * Binaries exiting with poppler's documented codes: 1 for errors opening the
+ * PDF, 2 for errors opening an output file, 3 for PDF permission errors
+ * (pdftocairo adds 4 for ICC profile errors, all use 99 for anything else)
+ */
+const EXIT_CODE_BINARIES = [
+  'pdfinfo',
+  'pdffonts',
+  'pdfimages',
+  'pdftotext',
+  'pdftohtml',
+  'pdftoppm',
+  'pdftocairo',
+  'pdftops',
+  'pdfdetach',
+];
+
+/** Error codes of failed file system calls caused by the temp directory */
+const TEMP_ERROR_CODES = ['EACCES', 'EPERM', 'EROFS', 'ENOSPC', 'EDQUOT'];
+
+/**
+ * Dynamic loader failures (glibc ld.so and macOS dyld), reported before the
+ * binary runs, with whatever exit code the loader picks
+ */
+const LOADER_ERROR_PATTERN =
+  /error while loading shared libraries|version `[^']+' not found|dyld(\[\d+\])?: (library not loaded|symbol not found)/i;
+
+/** Whether the failed system call started a process */
+const isSpawn = ({ syscall }: ErrorRuleContext) => syscall?.startsWith('spawn') ?? false;
+
+/** Whether the temp directory exists (TMPDIR may point anywhere) */
+function tempDirExists(): boolean {
+  try {
+    return fs.statSync(os.tmpdir()).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Built-in rules, in the order they are tried
+ * Processes killed by a timeout, maxBuffer or a signal are classified before
+ * any rule runs. Failures no rule matches become a plain PdfPopplerError.
+ */
+export const DEFAULT_ERROR_RULES: readonly ErrorRule[] = [
+  {
+    name: 'binary-not-found',
+    errorCode: 'ENOENT',
+    test: isSpawn,
+    create: ({ binary, path, details }) => new BinaryNotFoundError(binary ?? path ?? 'unknown', details),
+  },
+  {
+    name: 'binary-not-executable',
+    errorCode: ['EACCES', 'EPERM', 'ENOEXEC'],
+    test: isSpawn,
+    create: ({ binary, path, details }) => new BinaryNotExecutableError(binary ?? path ?? 'unknown', path, details),
+  },
+  {
+    name: 'binary-load-error',
+    stderr: LOADER_ERROR_PATTERN,
+    create: ({ binary, stderr, details }) =>
+      new BinaryNotExecutableError(binary ?? 'unknown', undefined, details, stderr),
+  },
+  {
+    name: 'temp-directory',
+    errorCode: TEMP_ERROR_CODES,
+    test: context => !isSpawn(context),
+    create: ({ error, path, stderr, details }) =>
+      new TempDirectoryError(`Cannot use the temp directory: ${error.message}`, path, stderr || undefined, details),
+  },
+  {
+    name: 'missing-temp-directory',
+    errorCode: ['ENOENT', 'ENOTDIR'],
+    test: context => !isSpawn(context) && !tempDirExists(),
+    create: ({ error, path, stderr, details }) =>
+      new TempDirectoryError(
+        `Temp directory ${os.tmpdir()} does not exist: ${error.message}`,
+        path,
+        stderr || undefined,
+        details
+      ),
+  },
+  {
+    // Poppler reports a missing and a wrong password alike
+    name: 'incorrect-password',
+    stderr: /incorrect password/i,
+    create: ({ hasPassword, stderr, details }) =>
+      hasPassword
+        ? new IncorrectPasswordError('Incorrect password for the PDF', stderr, details)
+        : new EncryptedPdfError('PDF is password protected', stderr, details),
+  },
+  {
+    name: 'permission-error',
+    binary: EXIT_CODE_BINARIES,
+    exitCode: 3,
+    create: ({ stderr, details }) =>
+      new EncryptedPdfError('PDF permissions do not allow this operation', stderr, details),
+  },
+  {
+    name: 'output-file-error',
+    binary: EXIT_CODE_BINARIES,
+    exitCode: 2,
+    create: ({ binary, stderr, details }) =>
+      new TempDirectoryError(`${binary} could not write its output file`, undefined, stderr, details),
+  },
+  {
+    name: 'open-error',
+    binary: EXIT_CODE_BINARIES,
+    exitCode: 1,
+    create: ({ stderr, details }) => new InvalidPdfError('Invalid or corrupted PDF file', stderr, details),
+  },
+  {
+    // Binaries without documented exit codes (pdfunite, pdfseparate, ...)
+    name: 'damaged-pdf',
+    stderr: /may not be a pdf file|pdf file is damaged|couldn't (open file|read xref|find trailer)|could not merge damaged/i,
+    create: ({ stderr, details }) => new InvalidPdfError('Invalid or corrupted PDF file', stderr, details),
+  },
+];
+
+/**
+ * Whether a condition accepts a value (left out conditions accept everything)
+ */
+function accepts<T>(condition: T | T[] | undefined, value: T | undefined | null): boolean {
+  if (condition === undefined) {
+    return true;
+  }
+  return Array.isArray(condition) ? condition.includes(value as T) : condition === value;
+}
+
+/**
+ * Create the error of the first rule matching a failure
+ *
+ * @param context - Failure to classify
+ * @param rules - Rules in the order to try them
+ * @returns The created error, or undefined if no rule matches
+ *
+ * @example
+ * ```typescript
+ * const error = classifyError(context, [myRule, ...DEFAULT_ERROR_RULES]);
+ * ```
+ */
+export function classifyError(
+  context: ErrorRuleContext,
+  rules: readonly ErrorRule[] = DEFAULT_ERROR_RULES
+): PdfPopplerError | undefined {
+  const rule = rules.find(
+    candidate =>
+      accepts(candidate.binary, context.binary) &&
+      accepts(candidate.exitCode, context.exitCode) &&
+      accepts(candidate.errorCode, context.errorCode) &&
+      (!candidate.stderr || candidate.stderr.test(context.stderr)) &&
+      (!candidate.test || candidate.test(context))
+  );
+  return rule?.create(context);
+}
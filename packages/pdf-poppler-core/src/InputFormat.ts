@@ -0,0 +1,93 @@
+import { DetectedType, SniffResult } from './types';
+import { InvalidPdfError } from './errors';
+
+/** Bytes read from the start of an input to detect its format */
+export const HEAD_BYTES = 4096;
+
+/**
+ * Bytes read from the end of an input to find the %%EOF marker
+ * Wider than the 1024 bytes of the spec, as writers and signing tools append
+ * padding and signature data after it.
+ */
+export const TAIL_BYTES = 64 * 1024;
+
+/** Readers accept a %PDF- header preceded by up to this many bytes of garbage */
+const HEADER_WINDOW = 1024;
+
+const PDF_HEADER = Buffer.from('%PDF-');
+const EOF_MARKER = Buffer.from('%%EOF');
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+/** Local file header, empty archive and spanned archive signatures */
+const ZIP_SIGNATURES = [
+  Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  Buffer.from([0x50, 0x4b, 0x05, 0x06]),
+  Buffer.from([0x50, 0x4b, 0x07, 0x08]),
+];
+
+/** Opening tags of HTML documents (e.g., an error page served instead of a PDF) */
+const HTML_PATTERN = /<(!doctype html|html|head|body)[\s>]/i;
+
+/**
+ * Why inputs of each rejected type are rejected
+ * Unknown bytes and PDFs without %%EOF are left to poppler, which reads PDFs
+ * with a misplaced header and rebuilds the cross-reference table of cut off ones.
+ */
+const TYPE_MESSAGES: Record<Exclude<DetectedType, 'pdf' | 'unknown'>, string> = {
+  empty: 'Input is empty',
+  png: 'Input is a PNG image, not a PDF',
+  jpeg: 'Input is a JPEG image, not a PDF',
+  zip: 'Input is a ZIP archive, not a PDF',
+  docx: 'Input is a Word document (DOCX), not a PDF',
+  html: 'Input is an HTML document, not a PDF',
+};
+
+/**
+ * Detect the format of an input from its first and last bytes
+ * @param head - First HEAD_BYTES bytes (fewer for smaller inputs)
+ * @param tail - Last TAIL_BYTES bytes (fewer for smaller inputs)
+ * @param size - Input size in bytes
+ */
+export function sniffFormat(head: Buffer, tail: Buffer, size: number): SniffResult {
+  if (size === 0) {
+    return { type: 'empty', size };
+  }
+
+  const headerOffset = head.subarray(0, HEADER_WINDOW + PDF_HEADER.length).indexOf(PDF_HEADER);
+  if (headerOffset !== -1) {
+    const version = head.toString('latin1', headerOffset + PDF_HEADER.length, headerOffset + PDF_HEADER.length + 8);
+    return {
+      type: 'pdf',
+      size,
+      version: version.match(/^\d+\.\d+/)?.[0],
+      headerOffset,
+      truncated: tail.indexOf(EOF_MARKER) === -1,
+    };
+  }
+
+  if (head.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return { type: 'png', size };
+  }
+  if (head.subarray(0, JPEG_SIGNATURE.length).equals(JPEG_SIGNATURE)) {
+    return { type: 'jpeg', size };
+  }
+  if (ZIP_SIGNATURES.some(signature => head.subarray(0, signature.length).equals(signature))) {
+    // Entry names are stored uncompressed in the local file headers
+    return { type: head.includes('word/') ? 'docx' : 'zip', size };
+  }
+  if (HTML_PATTERN.test(head.toString('utf8'))) {
+    return { type: 'html', size };
+  }
+  return { type: 'unknown', size };
+}
+
+/**
+ * Reject inputs detected as another format
+ * @throws InvalidPdfError with the detected type
+ */
+export function assertPdf(result: SniffResult): void {
+  if (result.type !== 'pdf' && result.type !== 'unknown') {
+    throw new InvalidPdfError(TYPE_MESSAGES[result.type], undefined, undefined, result.type);
+  }
+}
@@ -0,0 +1,100 @@
+import { PdfPopplerError } from './errors';
+import { RasterImage, PNG_GRAY, encodePng, parseNetpbm } from './Raster';
+
+/** Formats a thresholded 1-bit image can be written as */
+export type MonochromeFormat = 'png' | 'tiff' | 'pbm';
+
+/**
+ * Threshold an 8-bit PGM image into a 1-bit image
+ * @param pgm - Binary (P5) PGM image, as written by pdftoppm -gray
+ * @param threshold - Gray level 0-255; darker pixels become black
+ * @param format - Output format
+ * @throws PdfPopplerError if the PGM data is invalid
+ */
+export function encodeMonochrome(pgm: Buffer, threshold: number, format: MonochromeFormat): Buffer {
+  const image = parseNetpbm(pgm);
+  if (image.channels !== 1) {
+    throw new PdfPopplerError('Invalid PGM data: expected a grayscale image');
+  }
+  const rows = packRows(image, threshold);
+
+  switch (format) {
+    case 'png': {
+      // PNG grayscale uses 0 for black
+      const inverted = rows.map(row => Buffer.from(row.map(byte => ~byte & 0xff)));
+      return encodePng(image.width, image.height, 1, PNG_GRAY, inverted);
+    }
+    case 'tiff':
+      return encodeTiff(image.width, image.height, rows);
+    default:
+      return Buffer.concat([Buffer.from(`P4\n${image.width} ${image.height}\n`, 'latin1'), ...rows]);
+  }
+}
+
+/**
+ * Pack pixels into rows of 1-bit samples (1 = black), each row padded to a byte
+ */
+function packRows(image: RasterImage, threshold: number): Buffer[] {
+  const rowBytes = Math.ceil(image.width / 8);
+  const rows: Buffer[] = [];
+
+  for (let y = 0; y < image.height; y++) {
+    const row = Buffer.alloc(rowBytes);
+    const start = y * image.width;
+    for (let x = 0; x < image.width; x++) {
+      if (image.pixels[start + x] < threshold) {
+        row[x >> 3] |= 0x80 >> (x & 7);
+      }
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Encode 1-bit rows as an uncompressed bilevel TIFF (WhiteIsZero, one strip)
+ */
+function encodeTiff(width: number, height: number, rows: Buffer[]): Buffer {
+  const imageData = Buffer.concat(rows);
+
+  // tag, type (3 = SHORT, 4 = LONG), value
+  const entries: Array<[number, number, number]> = [
+    [256, 4, width], // ImageWidth
+    [257, 4, height], // ImageLength
+    [258, 3, 1], // BitsPerSample
+    [259, 3, 1], // Compression: none
+    [262, 3, 0], // PhotometricInterpretation: WhiteIsZero
+    [273, 4, 0], // StripOffsets (filled in below)
+    [277, 3, 1], // SamplesPerPixel
+    [278, 4, height], // RowsPerStrip
+    [279, 4, imageData.length], // StripByteCounts
+  ];
+
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const dataOffset = ifdOffset + ifdSize;
+
+  const tiff = Buffer.alloc(dataOffset + imageData.length);
+  tiff.write('II', 0, 'latin1');
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(ifdOffset, 4);
+
+  tiff.writeUInt16LE(entries.length, ifdOffset);
+  entries.forEach(([tag, type, value], i) => {
+    const entry = ifdOffset + 2 + i * 12;
+    tiff.writeUInt16LE(tag, entry);
+    tiff.writeUInt16LE(type, entry + 2);
+    tiff.writeUInt32LE(1, entry + 4);
+    const fieldValue = tag === 273 ? dataOffset : value;
+    if (type === 3) {
+      tiff.writeUInt16LE(fieldValue, entry + 8);
+    } else {
+      tiff.writeUInt32LE(fieldValue, entry + 8);
+    }
+  });
+  // Next IFD offset stays 0
+
+  imageData.copy(tiff, dataOffset);
+  return tiff;
+}
@@ -0,0 +1,153 @@
+import { PageSelection } from './types';
+import { PdfPopplerError, PageOutOfRangeError } from './errors';
+
+/** A page term in selection strings: "3", "-1", "last" or "last-2" */
+const PAGE_TERM = '(?:-?\\d+|last(?:-\\d+)?)';
+
+const SINGLE_PATTERN = new RegExp(`^${PAGE_TERM}$`);
+const RANGE_PATTERN = new RegExp(`^(${PAGE_TERM})\\s*-\\s*(${PAGE_TERM})$`);
+
+/**
+ * Resolve a page selection to page numbers
+ *
+ * Supported selections:
+ * - `3`: a single page; negative numbers count from the end (-1 is the last page)
+ * - `[1, 3, -1]`: a list of pages
+ * - `{ first: 2, last: -2 }`: an inclusive range (either end may be omitted)
+ * - `"1-3,7,odd,last-2"`: comma separated terms: `n`, `-n`, `last`, `last-n`,
+ *   ranges between any two of those (e.g. `"5-last"`), `odd`, `even` and `all`
+ *
+ * Pages are returned in the order given; ranges may run backwards (e.g. `"5-1"`).
+ *
+ * @param selection - Page selection (undefined, empty lists and empty strings select all pages)
+ * @param pageCount - Number of pages in the document
+ * @returns 1-indexed page numbers
+ * @throws PageOutOfRangeError if a selected page is outside 1..pageCount
+ * @throws PdfPopplerError if the selection is malformed
+ *
+ * @example
+ * ```typescript
+ * resolvePageSelection('1-3,last', 10); // [1, 2, 3, 10]
+ * resolvePageSelection([-2, -1], 10);   // [9, 10]
+ * resolvePageSelection('even', 5);      // [2, 4]
+ * ```
+ */
+export function resolvePageSelection(
+  selection: PageSelection | null | undefined,
+  pageCount: number
+): number[] {
+  if (selection === undefined || selection === null) {
+    return allPages(pageCount);
+  }
+
+  if (typeof selection === 'number') {
+    return [resolvePage(selection, pageCount)];
+  }
+
+  if (Array.isArray(selection)) {
+    return selection.length === 0
+      ? allPages(pageCount)
+      : selection.map(page => resolvePage(page, pageCount));
+  }
+
+  if (typeof selection === 'string') {
+    return resolveSelectionString(selection, pageCount);
+  }
+
+  if (typeof selection === 'object') {
+    const first = resolvePage(selection.first ?? 1, pageCount);
+    const last = resolvePage(selection.last ?? -1, pageCount);
+    return pageRange(first, last);
+  }
+
+  throw new PdfPopplerError(`Invalid page selection: ${String(selection)}`);
+}
+
+/**
+ * Resolve a comma separated selection string
+ */
+function resolveSelectionString(selection: string, pageCount: number): number[] {
+  const terms = selection
+    .split(',')
+    .map(term => term.trim().toLowerCase())
+    .filter(term => term.length > 0);
+
+  if (terms.length === 0) {
+    return allPages(pageCount);
+  }
+
+  const pages: number[] = [];
+
+  for (const term of terms) {
+    if (term === 'all') {
+      pages.push(...allPages(pageCount));
+    } else if (term === 'odd' || term === 'even') {
+      const parity = term === 'odd' ? 1 : 0;
+      pages.push(...allPages(pageCount).filter(page => page % 2 === parity));
+    } else if (SINGLE_PATTERN.test(term)) {
+      pages.push(resolveTerm(term, pageCount));
+    } else {
+      const match = term.match(RANGE_PATTERN);
+      if (!match) {
+        throw new PdfPopplerError(`Invalid page selection: "${term}" in "${selection}"`);
+      }
+      pages.push(...pageRange(resolveTerm(match[1], pageCount), resolveTerm(match[2], pageCount)));
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Resolve a page term of a selection string ("3", "-1", "last", "last-2")
+ */
+function resolveTerm(term: string, pageCount: number): number {
+  if (term === 'last') {
+    return pageCount;
+  }
+
+  if (term.startsWith('last-')) {
+    const page = pageCount - parseInt(term.substring(5), 10);
+    if (page < 1) {
+      throw new PageOutOfRangeError(page, pageCount);
+    }
+    return page;
+  }
+
+  return resolvePage(parseInt(term, 10), pageCount);
+}
+
+/**
+ * Validate a page number, resolving negative numbers from the end
+ */
+function resolvePage(page: number, pageCount: number): number {
+  if (typeof page !== 'number' || !Number.isInteger(page)) {
+    throw new PdfPopplerError(`Invalid page number: ${page}`);
+  }
+
+  const resolved = page < 0 ? pageCount + 1 + page : page;
+  if (resolved < 1 || resolved > pageCount) {
+    throw new PageOutOfRangeError(page, pageCount);
+  }
+
+  return resolved;
+}
+
+/**
+ * All pages of the document
+ */
+function allPages(pageCount: number): number[] {
+  return Array.from({ length: pageCount }, (_, i) => i + 1);
+}
+
+/**
+ * Pages from first to last (inclusive), counting down if last < first
+ */
+function pageRange(first: number, last: number): number[] {
+  const step = last >= first ? 1 : -1;
+  const pages: number[] = [];
+  for (let page = first; page !== last + step; page += step) {
+    pages.push(page);
+  }
+  return pages;
+}
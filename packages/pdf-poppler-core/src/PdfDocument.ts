@@ -0,0 +1,378 @@
+import { Readable } from 'stream';
+import {
+  OpenOptions,
+  InputOptions,
+  PasswordOptions,
+  PageOptions,
+  SplitOptions,
+  ExtractPagesOptions,
+  FontOptions,
+  ConvertOptions,
+  PageRegion,
+  RenderRegionOptions,
+  BoundingBox,
+  TextOptions,
+  TextResult,
+  TextLayoutOptions,
+  TextLayoutPage,
+  HtmlOptions,
+  PostScriptOptions,
+  MultiPageTiffOptions,
+  ThumbnailOptions,
+  ContactSheetOptions,
+  FontInfo,
+  PdfInfo,
+  PageInfo,
+  PageSelection,
+  ImageData,
+  PageResult,
+  PageStreamResult,
+  SplitResult,
+  SplitStreamResult,
+  Attachment,
+  ExtractedAttachment,
+  ExtractImagesOptions,
+  ExtractedImage,
+  SignatureInfo,
+} from './types';
+import { PdfPopplerError } from './errors';
+import type { PdfPoppler } from './PdfPoppler';
+
+/** Symbol.asyncDispose, with the same fallback TypeScript uses for `await using` */
+const asyncDispose: symbol =
+  (Symbol as unknown as { asyncDispose?: symbol }).asyncDispose ??
+  Symbol.for('Symbol.asyncDispose');
+
+/**
+ * Handle to a PDF opened with PdfPoppler.open()
+ *
+ * The PDF is written to a temp file once and passed to poppler as a file
+ * argument by every operation, and its pdfinfo metadata is cached.
+ * Passwords given to open() are applied to every operation.
+ * Call close() (or use `await using`) to remove the temp file.
+ *
+ * @example
+ * ```typescript
+ * const doc = await poppler.open(pdfBuffer, { password: 'secret' });
+ * try {
+ *   const info = await doc.info();
+ *   for await (const { page, data } of doc.convertIterator({ format: 'png' })) {
+ *     fs.writeFileSync(`page-${page}.png`, data);
+ *   }
+ * } finally {
+ *   await doc.close();
+ * }
+ * ```
+ */
+export class PdfDocument {
+  private closed = false;
+
+  /**
+   * Use PdfPoppler.open() to create documents
+   * @internal
+   */
+  constructor(
+    private readonly poppler: PdfPoppler,
+    private readonly pdfBuffer: Buffer,
+    private readonly options: OpenOptions,
+    private readonly release: () => Promise<void>
+  ) {}
+
+  /**
+   * Whether close() has been called
+   */
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Get PDF metadata (cached after the first call)
+   * @param options - Operation options (abort signal)
+   */
+  async info(options: InputOptions = {}): Promise<PdfInfo> {
+    return this.poppler.info(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Get the number of pages
+   * @param options - Operation options (abort signal)
+   */
+  async pageCount(options: InputOptions = {}): Promise<number> {
+    const info = await this.info(options);
+    return parseInt(info.pages, 10);
+  }
+
+  /**
+   * Get the geometry of each page
+   * @param pages - Pages to describe (default: all pages)
+   * @param options - Operation options (abort signal)
+   */
+  async pageInfo(pages?: PageSelection, options: InputOptions = {}): Promise<PageInfo[]> {
+    return this.poppler.pageInfo(this.getBuffer(), pages, this.withPasswords(options));
+  }
+
+  /**
+   * Convert PDF pages to image buffers
+   * @param options - Conversion options
+   */
+  async convert(options: ConvertOptions = {}): Promise<PageResult[]> {
+    return this.poppler.convert(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Convert PDF pages using an async iterator
+   * @param options - Conversion options
+   */
+  async *convertIterator(options: ConvertOptions = {}): AsyncGenerator<PageResult, void, unknown> {
+    yield* this.poppler.convertIterator(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Convert PDF pages to streams
+   * @param options - Conversion options
+   */
+  async convertToStream(options: ConvertOptions = {}): Promise<PageStreamResult[]> {
+    return this.poppler.convertToStream(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Render a rectangular area of a single page
+   * @param page - Page number (1-indexed)
+   * @param region - Area to render, or a bounding box from textLayout()
+   * @param options - Conversion options
+   */
+  async renderRegion(
+    page: number,
+    region: PageRegion | BoundingBox,
+    options: RenderRegionOptions = {}
+  ): Promise<Buffer> {
+    return this.poppler.renderRegion(this.getBuffer(), page, region, this.withPasswords(options));
+  }
+
+  /**
+   * Convert pages into one multi-page TIFF file
+   * @param options - Resolution, compression and page selection
+   */
+  async toMultiPageTiff(options: MultiPageTiffOptions = {}): Promise<Buffer> {
+    return this.poppler.toMultiPageTiff(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Convert pages into one multi-page TIFF file, returning a stream
+   * @param options - Resolution, compression and page selection
+   */
+  async toMultiPageTiffStream(options: MultiPageTiffOptions = {}): Promise<Readable> {
+    return this.poppler.toMultiPageTiffStream(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Render page thumbnails that fit a box
+   * @param options - Box size, fit mode, format and page selection
+   */
+  async thumbnails(options: ThumbnailOptions): Promise<PageResult[]> {
+    return this.poppler.thumbnails(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Compose page thumbnails into one PNG image
+   * @param options - Grid layout, labels and page selection
+   */
+  async contactSheet(options: ContactSheetOptions = {}): Promise<Buffer> {
+    return this.poppler.contactSheet(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Extract text
+   * @param options - Text extraction options
+   */
+  async text(options: TextOptions = {}): Promise<string> {
+    return this.poppler.text(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Extract text page by page
+   * @param options - Text extraction options
+   */
+  async textPages(options: TextOptions = {}): Promise<TextResult[]> {
+    return this.poppler.textPages(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Extract text with word bounding boxes
+   * @param options - Page selection and passwords
+   */
+  async textLayout(options: TextLayoutOptions = {}): Promise<TextLayoutPage[]> {
+    return this.poppler.textLayout(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Convert to HTML
+   * @param options - HTML conversion options
+   */
+  async html(options: HtmlOptions = {}): Promise<string> {
+    return this.poppler.html(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Convert to a single PostScript (or EPS) document
+   * @param options - PostScript options
+   */
+  async toPostScript(options: PostScriptOptions = {}): Promise<Buffer> {
+    return this.poppler.toPostScript(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Convert to a single PostScript (or EPS) document, returning a stream
+   * @param options - PostScript options
+   */
+  async toPostScriptStream(options: PostScriptOptions = {}): Promise<Readable> {
+    return this.poppler.toPostScriptStream(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * List fonts used in the PDF
+   * @param options - Page selection, password override and abort signal
+   */
+  async listFonts(options: FontOptions = {}): Promise<FontInfo[]> {
+    return this.poppler.listFonts(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Get embedded image metadata
+   * @param options - Page selection and abort signal
+   */
+  async listImages(options: PageOptions = {}): Promise<ImageData[]> {
+    return this.poppler.listImages(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Extract embedded images as buffers
+   * @param options - Image extraction options
+   */
+  async extractImages(options: ExtractImagesOptions = {}): Promise<ExtractedImage[]> {
+    return this.poppler.extractImages(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Extract embedded images using an async iterator
+   * @param options - Image extraction options
+   */
+  async *extractImagesIterator(
+    options: ExtractImagesOptions = {}
+  ): AsyncGenerator<ExtractedImage, void, unknown> {
+    yield* this.poppler.extractImagesIterator(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Split into single-page PDFs
+   * @param options - Page selection, split mode and abort signal
+   */
+  async split(options: SplitOptions = {}): Promise<SplitResult[]> {
+    return this.poppler.split(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Split into single-page PDF streams
+   * @param options - Page selection, split mode and abort signal
+   */
+  async splitToStreams(options: SplitOptions = {}): Promise<SplitStreamResult[]> {
+    return this.poppler.splitToStreams(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Extract pages into one PDF
+   * @param pages - Pages to extract, in order
+   * @param options - Passwords and abort signal
+   */
+  async extractPages(pages: PageSelection, options: ExtractPagesOptions = {}): Promise<Buffer> {
+    return this.poppler.extractPages(this.getBuffer(), pages, this.withPasswords(options));
+  }
+
+  /**
+   * Flatten form fields and annotations
+   * @param options - Operation options (abort signal)
+   */
+  async flatten(options: InputOptions = {}): Promise<Buffer> {
+    return this.poppler.flatten(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Flatten form fields and annotations, returning a stream
+   * @param options - Operation options (abort signal)
+   */
+  async flattenToStream(options: InputOptions = {}): Promise<Readable> {
+    return this.poppler.flattenToStream(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * List attachments
+   * @param options - Operation options (abort signal)
+   */
+  async listAttachments(options: InputOptions = {}): Promise<Attachment[]> {
+    return this.poppler.listAttachments(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Extract a specific attachment by index
+   * @param index - Attachment index (1-indexed)
+   * @param options - Operation options (abort signal)
+   */
+  async extractAttachment(index: number, options: InputOptions = {}): Promise<Buffer> {
+    return this.poppler.extractAttachment(this.getBuffer(), index, this.withPasswords(options));
+  }
+
+  /**
+   * Extract all attachments
+   * @param options - Operation options (abort signal)
+   */
+  async extractAllAttachments(options: InputOptions = {}): Promise<ExtractedAttachment[]> {
+    return this.poppler.extractAllAttachments(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Verify digital signatures
+   * @param options - Operation options (abort signal)
+   */
+  async verifySignatures(options: InputOptions = {}): Promise<SignatureInfo> {
+    return this.poppler.verifySignatures(this.getBuffer(), this.withPasswords(options));
+  }
+
+  /**
+   * Close the document and remove its temp file
+   * Safe to call more than once.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await this.release();
+  }
+
+  /**
+   * Close the document (for `await using`)
+   */
+  async [asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  /**
+   * Get the PDF data, failing if the document is closed
+   */
+  private getBuffer(): Buffer {
+    if (this.closed) {
+      throw new PdfPopplerError('Document is closed');
+    }
+    return this.pdfBuffer;
+  }
+
+  /**
+   * Apply the document passwords unless overridden by the options
+   */
+  private withPasswords<T extends PasswordOptions>(options: T): T {
+    return {
+      ...options,
+      password: options.password ?? this.options.password,
+      ownerPassword: options.ownerPassword ?? this.options.ownerPassword,
+      passwordProvider: options.passwordProvider ?? this.options.passwordProvider,
+    };
+  }
+}
@@ -1,44 +1,258 @@
 import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs';
-import { execFile, spawn, ExecFileOptions, ChildProcess } from 'child_process';
-import { Readable, PassThrough } from 'stream';
+import { execFile, spawn, ExecFileOptions, SpawnOptions, StdioOptions, ChildProcess } from 'child_process';
+import { Readable, PassThrough, Transform, pipeline } from 'stream';
+import { promisify } from 'util';
+import { createHash } from 'crypto';
 import {
   PdfPopplerConfig,
+  OperationOptions,
+  PageSelection,
+  PageSelectionOptions,
+  PageOptions,
+  SplitMode,
+  SplitOptions,
+  ExtractPagesOptions,
+  FontOptions,
   ConvertOptions,
+  PageRegion,
+  RenderRegionOptions,
   TextOptions,
   TextResult,
+  TextLayoutOptions,
+  TextLayoutPage,
+  TextFlow,
+  TextBlock,
+  TextLine,
+  BoundingBox,
   HtmlOptions,
+  PostScriptOptions,
+  MultiPageTiffOptions,
+  TiffCompression,
+  Renderer,
+  ColorMode,
+  ThumbnailFit,
+  ThumbnailFormat,
+  ThumbnailOptions,
+  ContactSheetOptions,
+  ThinLineMode,
   FontInfo,
   PdfInfo,
+  PageInfo,
+  PageBox,
+  FitSize,
   ImageData,
   VersionInfo,
   Platform,
   ResolvedConfig,
   OutputFormat,
   PdfInput,
+  SniffResult,
+  MergeInput,
+  MergeSource,
   PageResult,
   PageStreamResult,
   SplitResult,
   SplitStreamResult,
   Attachment,
   ExtractedAttachment,
+  AttachmentInput,
+  OpenOptions,
   SignatureInfo,
   SignatureDetails,
+  ExtractImagesOptions,
+  ExtractedImage,
+  PasswordOptions,
+  InputOptions,
+  ProcessErrorDetails,
+  ErrorRuleContext,
 } from './types';
 import { PdfPopplerConfigBuilder, configure } from './PdfPopplerConfig';
+import { PdfDocument } from './PdfDocument';
+import { resolvePageSelection } from './PageSelection';
+import { parseDiagnostics } from './Diagnostics';
+import { DEFAULT_ERROR_RULES, classifyError } from './ErrorRules';
+import { HEAD_BYTES, TAIL_BYTES, sniffFormat, assertPdf } from './InputFormat';
+import { TIFF_HEADER_SIZE, createTiffHeader, readTiffImage, writeTiffPage } from './TiffAssembler';
+import { MonochromeFormat, encodeMonochrome } from './Monochrome';
+import {
+  RasterImage,
+  GLYPH_HEIGHT,
+  parseNetpbm,
+  parseColor,
+  createImage,
+  drawImage,
+  drawLabel,
+  measureLabel,
+  encodeImagePng,
+} from './Raster';
 import { BinaryResolver } from './platform/BinaryResolver';
 import { EnvironmentDetector } from './platform/EnvironmentDetector';
 import {
   PdfPopplerError,
   InvalidPdfError,
   EncryptedPdfError,
+  IncorrectPasswordError,
   PageOutOfRangeError,
   BinaryNotFoundError,
+  InputTooLargeError,
+  ProcessTimeoutError,
+  ProcessCrashedError,
+  OutputLimitExceededError,
+  AbortError,
 } from './errors';
 
+/**
+ * PDF passed to poppler as a file argument instead of stdin: an open
+ * document, a file path input or a spooled stream input. The Buffer keying
+ * these is empty unless it holds the data of an open document.
+ */
+interface FileInputState {
+  /** File holding the PDF data */
+  filePath: string;
+  /** Memoized pdfinfo result */
+  info?: Promise<PdfInfo>;
+  /** Temp file a stream input was spooled to, deleted once the operation finishes */
+  spooled?: boolean;
+}
+
+/**
+ * SHA-256 of a file path input, valid while its size and mtime are unchanged
+ */
+interface FileHash {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+/**
+ * Image from pdfimages -list with its position among the images of its page
+ * Runs over a page range number their output files from 0, so images are
+ * matched to files by page and position rather than by number.
+ */
+interface ListedImage {
+  meta: ImageData;
+  page: number;
+  position: number;
+}
+
+/**
+ * A poppler process that failed, described by the error it causes
+ */
+interface ProcessRun {
+  /** Binary name without extension */
+  binary: string;
+  args: string[];
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Date.now() when the process was spawned */
+  startTime: number;
+  stdoutBytes: number;
+  /** Killed for running longer than execOptions.timeout */
+  timedOut?: boolean;
+  /** Killed for writing more than execOptions.maxBuffer (to stderr, for spawned processes) */
+  outputLimitExceeded?: boolean;
+}
+
+const pipelineAsync = promisify(pipeline);
+
+/** Chunk size for hashing file inputs */
+const HASH_CHUNK_SIZE = 1024 * 1024;
+
+/** File path inputs whose hashes are remembered (the oldest are forgotten first) */
+const MAX_FILE_HASHES = 1000;
+
 /** Valid output formats */
-const FORMATS: OutputFormat[] = ['png', 'jpeg', 'tiff', 'pdf', 'ps', 'eps', 'svg'];
+const FORMATS: OutputFormat[] = ['png', 'jpeg', 'tiff', 'pdf', 'ps', 'eps', 'svg', 'ppm', 'pgm', 'pbm'];
+
+/** Raster formats, written as one file per page (usable for batch rendering) */
+const BATCH_FORMATS: OutputFormat[] = ['png', 'jpeg', 'tiff', 'ppm', 'pgm', 'pbm'];
+
+/** File extensions pdftocairo and pdftoppm use for batch output */
+const BATCH_EXTENSIONS: Partial<Record<OutputFormat, string>> = {
+  png: 'png',
+  jpeg: 'jpg',
+  tiff: 'tif',
+  ppm: 'ppm',
+  pgm: 'pgm',
+  pbm: 'pbm',
+};
+
+/** Formats only pdftoppm can write (always rendered with the splash renderer) */
+const SPLASH_ONLY_FORMATS: OutputFormat[] = ['ppm', 'pgm', 'pbm'];
+
+/** pdftoppm arguments selecting each output format (PPM is its default) */
+const SPLASH_FORMAT_ARGS: Partial<Record<OutputFormat, string[]>> = {
+  png: ['-png'],
+  jpeg: ['-jpeg'],
+  tiff: ['-tiff'],
+  ppm: [],
+  pgm: ['-gray'],
+  pbm: ['-mono'],
+};
+
+/** Poppler binary used by each renderer */
+const RENDERER_BINARIES: Record<Renderer, string> = {
+  cairo: 'pdftocairo',
+  splash: 'pdftoppm',
+};
+
+/** Poll interval while waiting for batch output (in case a watch event is missed) */
+const BATCH_POLL_INTERVAL_MS = 200;
+
+/** Raster resolution for region rendering when no dpi is given (pdftocairo's default) */
+const REGION_DEFAULT_DPI = 150;
+
+/** Resolution of multi-page TIFF output when no dpi is given */
+const TIFF_DEFAULT_DPI = 150;
+
+/** pdftocairo -tiffcompression names */
+const TIFF_COMPRESSION_NAMES: Record<TiffCompression, string> = {
+  none: 'none',
+  packbits: 'packbits',
+  lzw: 'lzw',
+  deflate: 'deflate',
+  jpeg: 'jpeg',
+  g4: 'ccittfax4',
+};
+
+/** Valid split modes */
+const SPLIT_MODES: SplitMode[] = ['lossless', 'rerender'];
+
+/** Arguments followed by a password, redacted in errors */
+const PASSWORD_FLAGS = ['-upw', '-opw'];
+
+/** How often a password provider is asked before giving up */
+const MAX_PASSWORD_ATTEMPTS = 5;
+
+/** Valid thumbnail fit modes */
+const THUMBNAIL_FITS: ThumbnailFit[] = ['inside', 'contain', 'cover'];
+
+/** Valid thumbnail formats */
+const THUMBNAIL_FORMATS: ThumbnailFormat[] = ['png', 'jpeg'];
+
+/** Contact sheet defaults */
+const CONTACT_SHEET_COLUMNS = 4;
+const CONTACT_SHEET_TILE_WIDTH = 200;
+const CONTACT_SHEET_GUTTER = 10;
+
+/** Valid color modes */
+const COLOR_MODES: ColorMode[] = ['rgb', 'gray', 'mono', 'cmyk'];
+
+/** Formats thresholded mono output can be encoded as */
+const THRESHOLD_FORMATS: MonochromeFormat[] = ['png', 'tiff', 'pbm'];
+
+/**
+ * Rendering of thresholded mono output: pages are rendered as 8-bit gray
+ * and converted to 1-bit images afterwards
+ */
+interface ThresholdRendering {
+  /** Options rendering the gray source image */
+  options: ConvertOptions;
+  /** Convert a gray source image into the requested format */
+  encode: (data: Buffer) => Buffer;
+}
 
 /**
  * Main class for PDF operations using Poppler
@@ -78,6 +292,13 @@ export class PdfPoppler {
   private readonly execOptions: ExecFileOptions;
   private readonly envDetector: EnvironmentDetector;
   private readonly fontconfigEnv: Record<string, string> | null;
+  private readonly fileInputs = new WeakMap<Buffer, FileInputState>();
+  /** SHA-256 of PDF buffers, for render cache keys */
+  private readonly pdfHashes = new WeakMap<Buffer, string>();
+  /** SHA-256 of file path inputs by path, which get a new Buffer every call */
+  private readonly fileHashes = new Map<string, FileHash>();
+  /** Passwords a password provider supplied for PDF buffers */
+  private readonly unlockedPasswords = new WeakMap<Buffer, PasswordOptions>();
 
   /**
    * Create a new PdfPoppler instance
@@ -168,103 +389,229 @@ export class PdfPoppler {
   // ===================
 
   /**
-   * Get PDF metadata
+   * Open a PDF for repeated operations
+   * The PDF is read and written to a temp file once, and its metadata is
+   * cached, until the document is closed.
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Passwords applied to every operation on the document
+   * @returns PdfDocument handle (call close() when done)
+   *
+   * @example
+   * ```typescript
+   * const doc = await poppler.open(pdfBuffer);
+   * try {
+   *   const info = await doc.info();
+   *   const pages = await doc.convert({ format: 'png' });
+   *   const text = await doc.text();
+   * } finally {
+   *   await doc.close();
+   * }
+   * ```
    */
-  async info(input: PdfInput): Promise<PdfInfo> {
-    const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdfinfo'));
-
-    return new Promise((resolve, reject) => {
-      const proc = spawn(binary, ['-'], {
-        ...this.execOptions,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+  async open(input: PdfInput, options: OpenOptions = {}): Promise<PdfDocument> {
+    const inputBuffer = await this.inputToBuffer(input);
+    let pdfBuffer = inputBuffer;
+    const filePath = this.createTempPath('pdf-poppler-document', '.pdf');
 
-      let stdout = '';
-      let stderr = '';
+    try {
+      this.throwIfAborted(options.signal);
+
+      const source = this.fileInputs.get(inputBuffer);
+      if (source?.spooled && input !== inputBuffer) {
+        // Take over the temp file the stream was spooled to
+        await fs.promises.rename(source.filePath, filePath);
+        this.fileInputs.delete(inputBuffer);
+      } else if (source) {
+        // Copy files, so the document doesn't change underneath; each
+        // document needs its own registry key
+        await fs.promises.copyFile(source.filePath, filePath);
+        pdfBuffer = Buffer.alloc(0);
+      } else {
+        await fs.promises.writeFile(filePath, pdfBuffer);
+      }
+    } catch (error) {
+      this.releaseInput(input, inputBuffer);
+      await fs.promises.rm(filePath, { force: true });
+      throw this.tagOperation(this.wrapTempError(error), 'open');
+    }
 
-      proc.stdout.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
+    this.fileInputs.set(pdfBuffer, { filePath });
+    const close = async () => {
+      this.fileInputs.delete(pdfBuffer);
+      await fs.promises.rm(filePath, { force: true });
+    };
 
-      proc.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+    try {
+      options = await this.unlock(pdfBuffer, options, 'open');
+    } catch (error) {
+      await close();
+      throw this.tagOperation(error, 'open');
+    }
 
-      proc.on('error', (error: Error) => {
-        reject(this.wrapError(error, stderr));
-      });
+    const { signal, ...documentOptions } = options;
+    return new PdfDocument(this, pdfBuffer, documentOptions, close);
+  }
 
-      proc.on('close', (code: number) => {
-        if (code !== 0) {
-          reject(this.wrapError(new Error(`pdfinfo exited with code ${code}`), stderr));
-        } else {
-          resolve(this.parseInfo(stdout));
-        }
-      });
+  /**
+   * Detect the format of an input without running poppler
+   * Operations run the same check first (unless validateInput is false) and
+   * reject inputs detected as another format with InvalidPdfError.
+   * @param input - Input as file path, Buffer, Uint8Array, or Readable stream
+   * @returns The detected type, with version, header offset and truncation for PDFs
+   *
+   * @example
+   * ```typescript
+   * const { type } = await poppler.sniff(upload);
+   * if (type !== 'pdf') {
+   *   throw new Error(`Expected a PDF, got ${type}`);
+   * }
+   * ```
+   */
+  async sniff(input: PdfInput): Promise<SniffResult> {
+    const pdfBuffer = await this.convertInput(input);
 
-      proc.stdin.write(pdfBuffer);
-      proc.stdin.end();
-    });
+    try {
+      return await this.sniffInput(pdfBuffer);
+    } catch (error) {
+      throw this.tagOperation(error, 'sniff');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
   }
 
   /**
-   * Convert PDF pages to image buffers
+   * Get PDF metadata
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @param options - Conversion options
-   * @returns Array of { page, data: Buffer } for each page
+   * @param options - Passwords and abort signal
    */
-  async convert(input: PdfInput, options: ConvertOptions = {}): Promise<PageResult[]> {
+  async info(input: PdfInput, options: InputOptions = {}): Promise<PdfInfo> {
     const pdfBuffer = await this.inputToBuffer(input);
 
-    // Get page count
-    const pdfInfo = await this.info(pdfBuffer);
-    const pageCount = parseInt(pdfInfo.pages, 10);
-
-    // Determine which pages to convert
-    let pagesToConvert: number[] = [];
+    try {
+      options = await this.unlock(pdfBuffer, options, 'info');
+      return await this.loadInfo(pdfBuffer, options);
+    } catch (error) {
+      throw this.tagOperation(error, 'info');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
 
-    if (options.pages && options.pages.length > 0) {
-      // Use explicit pages array
-      pagesToConvert = options.pages.filter(p => p >= 1 && p <= pageCount);
-      // Validate all requested pages exist
-      for (const p of options.pages) {
-        if (p < 1 || p > pageCount) {
-          throw new PageOutOfRangeError(p, pageCount);
-        }
-      }
-      pagesToConvert = options.pages;
-    } else if (options.page !== undefined && options.page !== null) {
-      // Single page specified
-      if (options.page < 1 || options.page > pageCount) {
-        throw new PageOutOfRangeError(options.page, pageCount);
+  /**
+   * Get PDF metadata, memoized for file inputs
+   */
+  private async loadInfo(pdfBuffer: Buffer, options: InputOptions): Promise<PdfInfo> {
+    // File inputs (open documents in particular) memoize their metadata. The shared
+    // pdfinfo run is not tied to any caller's signal; aborting only stops waiting for it.
+    const document = this.fileInputs.get(pdfBuffer);
+    if (document) {
+      if (!document.info) {
+        const info = this.readInfo(pdfBuffer, { password: options.password, ownerPassword: options.ownerPassword });
+        document.info = info;
+        // Don't cache failures
+        info.catch(() => {
+          if (document.info === info) {
+            document.info = undefined;
+          }
+        });
       }
-      pagesToConvert = [options.page];
-    } else {
-      // Use firstPage/lastPage or default to all pages
-      const startPage = options.firstPage ?? 1;
-      const endPage = options.lastPage ?? pageCount;
+      return this.raceAbort(document.info, options.signal);
+    }
 
-      // Validate range
-      if (startPage < 1 || startPage > pageCount) {
-        throw new PageOutOfRangeError(startPage, pageCount);
-      }
-      if (endPage < 1 || endPage > pageCount) {
-        throw new PageOutOfRangeError(endPage, pageCount);
-      }
+    return this.readInfo(pdfBuffer, options);
+  }
 
-      for (let page = startPage; page <= endPage; page++) {
-        pagesToConvert.push(page);
-      }
+  /**
+   * Run pdfinfo and parse its output
+   */
+  private async readInfo(pdfBuffer: Buffer, options: InputOptions): Promise<PdfInfo> {
+    const args = [...this.buildPasswordArgs(options), this.getInputArg(pdfBuffer)];
+    const stdout = await this.withCache(
+      await this.getCacheKey(pdfBuffer, 'pdfinfo', args),
+      () => this.runBinary('pdfinfo', args, pdfBuffer, options)
+    );
+    return this.parseInfo(stdout.toString());
+  }
+
+  /**
+   * Get the geometry of each page (sizes, rotation and page boxes)
+   * Unlike info(), which only reports the first page size, this handles
+   * documents with mixed page sizes and rotated pages.
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param pages - Pages to describe (default: all pages)
+   * @param options - Passwords and abort signal
+   * @returns PageInfo for each selected page, in selection order
+   */
+  async pageInfo(
+    input: PdfInput,
+    pages?: PageSelection,
+    options: InputOptions = {}
+  ): Promise<PageInfo[]> {
+    const pdfBuffer = await this.inputToBuffer(input);
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'pageInfo');
+      return await this.readPageInfo(pdfBuffer, pages, options);
+    } catch (error) {
+      throw this.tagOperation(error, 'pageInfo');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Run pdfinfo -box over the span of the selected pages
+   */
+  private async readPageInfo(
+    pdfBuffer: Buffer,
+    pages: PageSelection | undefined,
+    options: InputOptions
+  ): Promise<PageInfo[]> {
+    const pdfInfo = await this.loadInfo(pdfBuffer, options);
+    const selectedPages = resolvePageSelection(pages, parseInt(pdfInfo.pages, 10));
+    if (selectedPages.length === 0) {
+      return [];
     }
 
+    // pdfinfo prints per-page sizes and boxes for the -f/-l range
+    const args = [
+      '-f', String(Math.min(...selectedPages)),
+      '-l', String(Math.max(...selectedPages)),
+      '-box',
+      ...this.buildPasswordArgs(options),
+      this.getInputArg(pdfBuffer),
+    ];
+
+    const stdout = await this.withCache(
+      await this.getCacheKey(pdfBuffer, 'pdfinfo', args),
+      () => this.runBinary('pdfinfo', args, pdfBuffer, options)
+    );
+    const geometry = this.parsePageInfo(stdout.toString());
+
+    return selectedPages.map(page => {
+      const pageInfo = geometry.get(page);
+      if (!pageInfo) {
+        throw new PdfPopplerError(`pdfinfo returned no geometry for page ${page}`);
+      }
+      return pageInfo;
+    });
+  }
+
+  /**
+   * Convert PDF pages to image buffers
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Conversion options
+   * @returns Array of { page, data: Buffer } for each page
+   */
+  async convert(input: PdfInput, options: ConvertOptions = {}): Promise<PageResult[]> {
     const results: PageResult[] = [];
 
-    // Process each page (pdftocairo stdout only supports single page)
-    for (const page of pagesToConvert) {
-      const pageBuffer = await this.convertSinglePageToBuffer(pdfBuffer, page, options);
-      results.push({ page, data: pageBuffer });
+    try {
+      for await (const result of this.convertIterator(input, { ...options, order: 'ordered' })) {
+        results.push(result);
+      }
+    } catch (error) {
+      throw this.tagOperation(error, 'convert');
     }
 
     return results;
@@ -283,49 +630,44 @@ export class PdfPoppler {
   ): AsyncGenerator<PageResult, void, unknown> {
     const pdfBuffer = await this.inputToBuffer(input);
 
-    // Get page count
-    const pdfInfo = await this.info(pdfBuffer);
-    const pageCount = parseInt(pdfInfo.pages, 10);
-
-    // Determine which pages to convert
-    let pagesToConvert: number[] = [];
-
-    if (options.pages && options.pages.length > 0) {
-      // Use explicit pages array
-      for (const p of options.pages) {
-        if (p < 1 || p > pageCount) {
-          throw new PageOutOfRangeError(p, pageCount);
-        }
-      }
-      pagesToConvert = options.pages;
-    } else if (options.page !== undefined && options.page !== null) {
-      // Single page specified
-      if (options.page < 1 || options.page > pageCount) {
-        throw new PageOutOfRangeError(options.page, pageCount);
-      }
-      pagesToConvert = [options.page];
-    } else {
-      // Use firstPage/lastPage or default to all pages
-      const startPage = options.firstPage ?? 1;
-      const endPage = options.lastPage ?? pageCount;
-
-      // Validate range
-      if (startPage < 1 || startPage > pageCount) {
-        throw new PageOutOfRangeError(startPage, pageCount);
-      }
-      if (endPage < 1 || endPage > pageCount) {
-        throw new PageOutOfRangeError(endPage, pageCount);
-      }
-
-      for (let page = startPage; page <= endPage; page++) {
-        pagesToConvert.push(page);
+    try {
+      options = await this.unlock(pdfBuffer, options, 'convertIterator');
+
+      if (this.useBatchRendering(options)) {
+        // Rendering all pages needs no page count, so skip pdfinfo entirely
+        // (unless cache lookups need the page numbers)
+        const cached = this.resolvedConfig.cache !== undefined;
+        const pages = cached || this.hasPageSelection(options) || this.useFit(options)
+          ? await this.resolvePages(pdfBuffer, options)
+          : null;
+        const sizes = this.useFit(options) ? await this.getFitSizes(pdfBuffer, pages, options) : null;
+        yield* cached
+          ? this.convertPagesBatchCached(pdfBuffer, pages, options, sizes)
+          : this.convertPagesBatch(pdfBuffer, pages, options, sizes);
+        return;
       }
-    }
 
-    // Yield each page one at a time
-    for (const page of pagesToConvert) {
-      const pageBuffer = await this.convertSinglePageToBuffer(pdfBuffer, page, options);
-      yield { page, data: pageBuffer };
+      const concurrency = this.validateConcurrency(
+        options.concurrency ?? this.resolvedConfig.concurrency
+      );
+      const pagesToConvert = await this.resolvePages(pdfBuffer, options);
+      const sizes = this.useFit(options) ? await this.getFitSizes(pdfBuffer, pagesToConvert, options) : null;
+
+      // Render up to `concurrency` pages at once (pdftocairo stdout only supports single page)
+      yield* this.runConcurrent(
+        pagesToConvert,
+        concurrency,
+        async (page, signal) => ({
+          page,
+          data: await this.convertSinglePageToBuffer(pdfBuffer, page, { ...options, signal }, sizes?.get(page)),
+        }),
+        options.order !== 'as-completed',
+        options.signal
+      );
+    } catch (error) {
+      throw this.tagOperation(error, 'convertIterator');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
     }
   }
 
@@ -337,1365 +679,3839 @@ export class PdfPoppler {
    */
   async convertToStream(input: PdfInput, options: ConvertOptions = {}): Promise<PageStreamResult[]> {
     const pdfBuffer = await this.inputToBuffer(input);
+    let results: PageStreamResult[];
 
-    // Get page count
-    const pdfInfo = await this.info(pdfBuffer);
-    const pageCount = parseInt(pdfInfo.pages, 10);
+    try {
+      options = await this.unlock(pdfBuffer, options, 'convertToStream');
+
+      const pages = await this.resolvePages(pdfBuffer, options);
+      const sizes = this.useFit(options) ? await this.getFitSizes(pdfBuffer, pages, options) : null;
+
+      results = this.useBatchRendering(options)
+        ? await this.convertPagesBatchToStreams(pdfBuffer, pages, options, sizes)
+        : pages.map(page => ({
+          page,
+          stream: this.convertSinglePageToStream(pdfBuffer, page, options, sizes?.get(page)),
+        }));
+    } catch (error) {
+      this.releaseInput(input, pdfBuffer);
+      throw this.tagOperation(error, 'convertToStream');
+    }
 
-    // Determine which pages to convert
-    const startPage = options.page ?? 1;
-    const endPage = options.page ?? pageCount;
+    // Spooled input is needed until every page stream has finished
+    this.releaseInputAfter(input, pdfBuffer, results.map(result => result.stream));
+    return results;
+  }
 
-    const results: PageStreamResult[] = [];
+  /**
+   * Render a rectangular area of a single page
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param page - Page number (1-indexed)
+   * @param region - Area to render: { x, y, width, height, unit? }, or a
+   *                 bounding box from textLayout() ({ xMin, yMin, xMax, yMax } in points)
+   * @param options - Conversion options (raster output uses dpi, default 150)
+   * @returns Rendered image as Buffer
+   *
+   * @example
+   * ```typescript
+   * const [page] = await poppler.textLayout(pdfBuffer, { pages: [1] });
+   * const block = page.flows[0].blocks[0];
+   * const image = await poppler.renderRegion(pdfBuffer, 1, block, { dpi: 300 });
+   * ```
+   */
+  async renderRegion(
+    input: PdfInput,
+    page: number,
+    region: PageRegion | BoundingBox,
+    options: RenderRegionOptions = {}
+  ): Promise<Buffer> {
+    try {
+      const [result] = await this.convert(input, {
+        ...options,
+        page,
+        region: this.toPageRegion(region),
+      });
+      return result.data;
+    } catch (error) {
+      throw this.tagOperation(error, 'renderRegion');
+    }
+  }
 
-    // Process each page
-    for (let page = startPage; page <= endPage; page++) {
-      const stream = this.convertSinglePageToStream(pdfBuffer, page, options);
-      results.push({ page, stream });
+  /**
+   * Convert PDF pages into one multi-page TIFF file
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Resolution, compression, page selection and passwords
+   * @returns TIFF file as Buffer
+   */
+  async toMultiPageTiff(input: PdfInput, options: MultiPageTiffOptions = {}): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    try {
+      for await (const chunk of await this.toMultiPageTiffStream(input, options)) {
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      throw this.tagOperation(error, 'toMultiPageTiff');
     }
+    return Buffer.concat(chunks);
+  }
 
-    return results;
+  /**
+   * Convert PDF pages into one multi-page TIFF file, returning a stream
+   * Pages are rendered and written one at a time, so large documents are not
+   * held in memory.
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Resolution, compression, page selection and passwords
+   * @returns TIFF file as Readable stream
+   */
+  async toMultiPageTiffStream(input: PdfInput, options: MultiPageTiffOptions = {}): Promise<Readable> {
+    const pdfBuffer = await this.inputToBuffer(input);
+    let stream: Readable;
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'toMultiPageTiffStream');
+
+      const pages = await this.resolvePages(pdfBuffer, options);
+      if (pages.length === 0) {
+        throw new PdfPopplerError('A TIFF file needs at least one page');
+      }
+
+      const renderOptions: ConvertOptions = {
+        format: 'tiff',
+        dpi: options.dpi ?? TIFF_DEFAULT_DPI,
+        tiffCompression: options.compression,
+        color: options.mono ? 'mono' : undefined,
+        password: options.password,
+        ownerPassword: options.ownerPassword,
+        signal: options.signal,
+        onDiagnostic: options.onDiagnostic,
+      };
+
+      // Validate the options before the stream is handed out
+      this.buildConvertArgs(renderOptions);
+
+      stream = Readable.from(this.generateMultiPageTiff(pdfBuffer, pages, renderOptions));
+    } catch (error) {
+      this.releaseInput(input, pdfBuffer);
+      throw this.tagOperation(error, 'toMultiPageTiffStream');
+    }
+
+    this.releaseInputAfter(input, pdfBuffer, [stream]);
+    return stream;
   }
 
   /**
-   * Flatten PDF (render form fields and annotations to static content)
+   * Render page thumbnails that fit a box
+   * Sizes are computed from each page's own geometry, so documents with mixed
+   * page sizes and rotated pages get correctly proportioned thumbnails.
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @returns Flattened PDF as Buffer
+   * @param options - Box size, fit mode, format and page selection
+   * @returns Array of { page, data: Buffer } for each page, in selection order
+   *
+   * @example
+   * ```typescript
+   * const thumbs = await poppler.thumbnails(pdfBuffer, { width: 160, height: 160, fit: 'contain' });
+   * ```
    */
-  async flatten(input: PdfInput): Promise<Buffer> {
+  async thumbnails(input: PdfInput, options: ThumbnailOptions): Promise<PageResult[]> {
     const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdftocairo'));
 
-    // Use '-' for both stdin input and stdout output
-    const args = ['-pdf', '-', '-'];
+    try {
+      options = await this.unlock(pdfBuffer, options, 'thumbnails');
+
+      const fit = options.fit ?? 'inside';
+      const format = options.format ?? 'png';
+      this.validateSize('thumbnail width', options.width);
+      this.validateSize('thumbnail height', options.height);
+      if (!THUMBNAIL_FITS.includes(fit)) {
+        throw new PdfPopplerError(`Invalid thumbnail fit: ${fit}. Valid options: ${THUMBNAIL_FITS.join(', ')}`);
+      }
+      if (!THUMBNAIL_FORMATS.includes(format)) {
+        throw new PdfPopplerError(`Invalid thumbnail format: ${format}. Valid formats: ${THUMBNAIL_FORMATS.join(', ')}`);
+      }
+      if (fit === 'contain' && format !== 'png') {
+        throw new PdfPopplerError(`Thumbnails with fit 'contain' are padded as png, not ${format}`);
+      }
+      const background = parseColor(options.background ?? '#ffffff');
+      const concurrency = this.validateConcurrency(options.concurrency ?? this.resolvedConfig.concurrency);
+
+      const pages = await this.resolvePages(pdfBuffer, options);
+      const pageSizes = await this.getPageSizes(pdfBuffer, pages, options);
+
+      const renderOptions: ConvertOptions = {
+        format,
+        quality: options.quality,
+        cropBox: options.cropBox,
+        password: options.password,
+        ownerPassword: options.ownerPassword,
+        signal: options.signal,
+        onDiagnostic: options.onDiagnostic,
+      };
+      const { width, height } = options;
+
+      const results: PageResult[] = [];
+      const thumbnails = this.runConcurrent(
+        pages,
+        concurrency,
+        async (page, signal) => {
+          const pageSize = pageSizes.get(page);
+          const pageOptions: ConvertOptions = { ...renderOptions, signal };
+
+          if (fit === 'cover') {
+            // Render at the resolution that covers the box and crop the center
+            const factor = Math.max(width / pageSize.width, height / pageSize.height);
+            const region: PageRegion = {
+              x: Math.floor((pageSize.width * factor - width) / 2),
+              y: Math.floor((pageSize.height * factor - height) / 2),
+              width,
+              height,
+              unit: 'px',
+            };
+            const data = await this.convertSinglePageToBuffer(pdfBuffer, page, {
+              ...pageOptions,
+              dpi: 72 * factor,
+              region,
+            });
+            return { page, data };
+          }
 
-    return new Promise((resolve, reject) => {
-      const proc = spawn(binary, args, {
-        ...this.execOptions,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+          const size = this.fitInside(pageSize, width, height);
+          if (fit === 'inside') {
+            return { page, data: await this.convertSinglePageToBuffer(pdfBuffer, page, pageOptions, size) };
+          }
 
-      const chunks: Buffer[] = [];
-      let stderr = '';
+          // 'contain': center the page on a box-sized background
+          const image = parseNetpbm(
+            await this.convertSinglePageToBuffer(pdfBuffer, page, { ...pageOptions, format: 'ppm' }, size)
+          );
+          const box = createImage(width, height, background);
+          drawImage(box, image, Math.floor((width - image.width) / 2), Math.floor((height - image.height) / 2));
+          return { page, data: encodeImagePng(box) };
+        },
+        true,
+        options.signal
+      );
+      for await (const result of thumbnails) {
+        results.push(result);
+      }
 
-      proc.stdout.on('data', (chunk: Buffer) => {
-        chunks.push(chunk);
-      });
+      return results;
+    } catch (error) {
+      throw this.tagOperation(error, 'thumbnails');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
 
-      proc.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+  /**
+   * Compose page thumbnails into one PNG image, laid out in a grid
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Grid layout, labels and page selection
+   * @returns PNG image as Buffer
+   *
+   * @example
+   * ```typescript
+   * const sheet = await poppler.contactSheet(pdfBuffer, { columns: 5, tileWidth: 150, labels: true });
+   * ```
+   */
+  async contactSheet(input: PdfInput, options: ContactSheetOptions = {}): Promise<Buffer> {
+    const pdfBuffer = await this.inputToBuffer(input);
 
-      proc.on('error', (error: Error) => {
-        reject(this.wrapError(error, stderr));
-      });
+    try {
+      options = await this.unlock(pdfBuffer, options, 'contactSheet');
+
+      const columns = options.columns ?? CONTACT_SHEET_COLUMNS;
+      const tileWidth = options.tileWidth ?? CONTACT_SHEET_TILE_WIDTH;
+      const gutter = options.gutter ?? CONTACT_SHEET_GUTTER;
+      this.validateSize('columns', columns);
+      this.validateSize('tile width', tileWidth);
+      if (options.tileHeight !== undefined) {
+        this.validateSize('tile height', options.tileHeight);
+      }
+      if (!Number.isInteger(gutter) || gutter < 0) {
+        throw new PdfPopplerError(`Invalid gutter: ${gutter} (must be a non-negative integer)`);
+      }
+      const background = parseColor(options.background ?? '#ffffff');
+      const labelColor = parseColor(options.labelColor ?? '#000000');
+      const concurrency = this.validateConcurrency(options.concurrency ?? this.resolvedConfig.concurrency);
 
-      proc.on('close', (code: number) => {
-        if (code !== 0) {
-          reject(this.wrapError(new Error(`pdftocairo exited with code ${code}`), stderr));
-        } else {
-          resolve(Buffer.concat(chunks));
+      const pages = await this.resolvePages(pdfBuffer, options);
+      if (pages.length === 0) {
+        throw new PdfPopplerError('A contact sheet needs at least one page');
+      }
+      const pageSizes = await this.getPageSizes(pdfBuffer, pages, options);
+
+      // By default tiles are as tall as the tallest page at the tile width
+      const tileHeight = options.tileHeight ?? Math.max(
+        ...Array.from(pageSizes.values(), size => Math.max(1, Math.round((tileWidth * size.height) / size.width)))
+      );
+
+      const renderOptions: ConvertOptions = {
+        format: 'ppm',
+        cropBox: options.cropBox,
+        password: options.password,
+        ownerPassword: options.ownerPassword,
+        signal: options.signal,
+        onDiagnostic: options.onDiagnostic,
+      };
+
+      const tiles: RasterImage[] = [];
+      const rendered = this.runConcurrent(
+        pages,
+        concurrency,
+        async (page, signal) => parseNetpbm(await this.convertSinglePageToBuffer(
+          pdfBuffer,
+          page,
+          { ...renderOptions, signal },
+          this.fitInside(pageSizes.get(page), tileWidth, tileHeight)
+        )),
+        true,
+        options.signal
+      );
+      for await (const tile of rendered) {
+        tiles.push(tile);
+      }
+
+      // Page numbers go in a band below each tile
+      const labelScale = Math.max(1, Math.floor(tileWidth / 100));
+      const labelHeight = options.labels ? (GLYPH_HEIGHT + 4) * labelScale : 0;
+      const cellHeight = tileHeight + labelHeight;
+      const rows = Math.ceil(tiles.length / columns);
+
+      const sheet = createImage(
+        gutter + columns * (tileWidth + gutter),
+        gutter + rows * (cellHeight + gutter),
+        background
+      );
+
+      tiles.forEach((tile, index) => {
+        const left = gutter + (index % columns) * (tileWidth + gutter);
+        const top = gutter + Math.floor(index / columns) * (cellHeight + gutter);
+        drawImage(
+          sheet,
+          tile,
+          left + Math.floor((tileWidth - tile.width) / 2),
+          top + Math.floor((tileHeight - tile.height) / 2)
+        );
+
+        if (options.labels) {
+          const label = String(pages[index]);
+          const labelLeft = left + Math.floor((tileWidth - measureLabel(label, labelScale)) / 2);
+          drawLabel(sheet, label, labelLeft, top + tileHeight + 2 * labelScale, labelScale, labelColor);
         }
       });
 
-      proc.stdin.write(pdfBuffer);
-      proc.stdin.end();
-    });
+      return encodeImagePng(sheet);
+    } catch (error) {
+      throw this.tagOperation(error, 'contactSheet');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Flatten PDF (render form fields and annotations to static content)
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Passwords and abort signal
+   * @returns Flattened PDF as Buffer
+   */
+  async flatten(input: PdfInput, options: InputOptions = {}): Promise<Buffer> {
+    const pdfBuffer = await this.inputToBuffer(input);
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'flatten');
+
+      // Use '-' for stdout output (and stdin input unless the PDF is spilled to disk)
+      const args = ['-pdf', ...this.buildPasswordArgs(options), this.getInputArg(pdfBuffer), '-'];
+
+      return await this.runBinary('pdftocairo', args, pdfBuffer, options);
+    } catch (error) {
+      throw this.tagOperation(error, 'flatten');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
   }
 
   /**
    * Flatten PDF and return as stream
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Passwords and abort signal
    * @returns Flattened PDF as Readable stream
    */
-  async flattenToStream(input: PdfInput): Promise<Readable> {
+  async flattenToStream(input: PdfInput, options: InputOptions = {}): Promise<Readable> {
     const pdfBuffer = await this.inputToBuffer(input);
     const binary = path.join(this.binaryPath, this.getBinaryName('pdftocairo'));
 
-    const args = ['-pdf', '-', '-'];
+    try {
+      options = await this.unlock(pdfBuffer, options, 'flattenToStream');
+    } catch (error) {
+      this.releaseInput(input, pdfBuffer);
+      throw this.tagOperation(error, 'flattenToStream');
+    }
 
-    const proc = spawn(binary, args, {
-      ...this.execOptions,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
+    const args = ['-pdf', ...this.buildPasswordArgs(options), this.getInputArg(pdfBuffer), '-'];
+
+    const proc = this.spawnProcess(binary, args, this.execOptions, ['pipe', 'pipe', 'pipe']);
 
-    proc.stdin.write(pdfBuffer);
-    proc.stdin.end();
+    this.pipeInput(proc, pdfBuffer);
 
-    return this.createManagedStream(proc);
+    const stream = this.createManagedStream(proc, 'pdftocairo', args, options.signal);
+    this.releaseInputAfter(input, pdfBuffer, [stream]);
+    return stream;
   }
 
   /**
    * Get embedded image metadata from PDF
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Page selection, passwords and abort signal
    */
-  async listImages(input: PdfInput): Promise<ImageData[]> {
+  async listImages(input: PdfInput, options: PageOptions = {}): Promise<ImageData[]> {
     const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdfimages'));
 
     // pdfimages requires a file path, doesn't reliably support stdin
-    const tempDir = os.tmpdir();
-    const tempFile = path.join(
-      tempDir,
-      `pdf-poppler-${Date.now()}-${Math.random().toString(36).substring(2, 11)}.pdf`
-    );
+    const { tempFile, cleanup } = await this.spillToTempFile(pdfBuffer, 'pdf-poppler');
 
     try {
-      fs.writeFileSync(tempFile, pdfBuffer);
-
-      return await new Promise((resolve, reject) => {
-        execFile(
-          binary,
-          [tempFile, '-list'],
-          this.execOptions,
-          (error, stdout, stderr) => {
-            if (error) {
-              return reject(this.wrapError(error, stderr as string));
-            }
-            resolve(this.parseImgdata(stdout as string));
-          }
-        );
-      });
+      options = await this.unlock(pdfBuffer, options, 'listImages');
+
+      const pages = this.hasPageSelection(options) ? await this.resolvePages(pdfBuffer, options) : null;
+      const args = [...this.buildPasswordArgs(options), tempFile, '-list'];
+      if (pages) {
+        args.unshift('-f', String(Math.min(...pages)), '-l', String(Math.max(...pages)));
+      }
+
+      const { stdout } = await this.execBinary('pdfimages', args, options);
+      const images = this.parseImgdata(stdout);
+
+      return pages ? images.filter(image => pages.includes(parseInt(image.page, 10))) : images;
+    } catch (error) {
+      throw this.tagOperation(error, 'listImages');
     } finally {
       // Clean up temp file
-      try {
-        fs.unlinkSync(tempFile);
-      } catch {
-        // Ignore cleanup errors
-      }
+      cleanup();
+      this.releaseInput(input, pdfBuffer);
     }
   }
 
   /**
    * Get embedded image metadata from PDF
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Page selection and abort signal
    * @deprecated Use listImages() instead
    */
-  async imgdata(input: PdfInput): Promise<ImageData[]> {
-    return this.listImages(input);
+  async imgdata(input: PdfInput, options: PageOptions = {}): Promise<ImageData[]> {
+    try {
+      return await this.listImages(input, options);
+    } catch (error) {
+      throw this.tagOperation(error, 'imgdata');
+    }
   }
 
   /**
-   * Extract text from PDF
+   * Extract embedded images from PDF as image buffers
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @param options - Text extraction options
-   * @returns All text content as a single string
+   * @param options - Image extraction options
+   * @returns Array of { page, num, name, format, data, meta } for each image
    */
-  async text(input: PdfInput, options: TextOptions = {}): Promise<string> {
+  async extractImages(
+    input: PdfInput,
+    options: ExtractImagesOptions = {}
+  ): Promise<ExtractedImage[]> {
     const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdftotext'));
-
-    const args = this.buildTextArgs(options);
-    args.push('-'); // stdin input
-    args.push('-'); // stdout output
-
-    return new Promise((resolve, reject) => {
-      const proc = spawn(binary, args, {
-        ...this.execOptions,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+    const { tempFile, cleanup } = await this.spillToTempFile(pdfBuffer, 'pdf-poppler-images');
+    const outputDir = this.createTempPath('pdf-poppler-images');
 
-      let stdout = '';
-      let stderr = '';
+    try {
+      options = await this.unlock(pdfBuffer, options, 'extractImages');
 
-      proc.stdout.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
+      await this.makeTempDir(outputDir);
 
-      proc.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+      const selected = await this.selectImages(pdfBuffer, tempFile, options);
+      if (selected.length === 0) {
+        return [];
+      }
 
-      proc.on('error', (error: Error) => {
-        reject(this.wrapError(error, stderr));
-      });
-
-      proc.on('close', (code: number) => {
-        if (code !== 0) {
-          reject(this.wrapError(new Error(`pdftotext exited with code ${code}`), stderr));
-        } else {
-          resolve(stdout);
-        }
-      });
-
-      proc.stdin.write(pdfBuffer);
-      proc.stdin.end();
-    });
-  }
-
-  /**
-   * Extract text from PDF page by page
-   * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @param options - Text extraction options
-   * @returns Array of { page, text } for each page
-   */
-  async textPages(input: PdfInput, options: TextOptions = {}): Promise<TextResult[]> {
-    const pdfBuffer = await this.inputToBuffer(input);
-
-    // Get page count
-    const pdfInfo = await this.info(pdfBuffer);
-    const pageCount = parseInt(pdfInfo.pages, 10);
-
-    // Determine which pages to extract
-    let startPage = 1;
-    let endPage = pageCount;
-
-    if (options.page !== undefined) {
-      startPage = options.page;
-      endPage = options.page;
-    } else {
-      if (options.firstPage !== undefined) {
-        startPage = options.firstPage;
+      // Single pdfimages run over the page range spanned by the selection
+      const pages = selected.map(image => image.page);
+      await this.runPdfImages(
+        tempFile,
+        outputDir,
+        Math.min(...pages),
+        Math.max(...pages),
+        options
+      );
+
+      const results: ExtractedImage[] = [];
+      for (const image of await this.collectImageFiles(outputDir, selected)) {
+        results.push({ ...image, data: await fs.promises.readFile(path.join(outputDir, image.name)) });
       }
-      if (options.lastPage !== undefined) {
-        endPage = options.lastPage;
+      return results;
+    } catch (error) {
+      throw this.tagOperation(error, 'extractImages');
+    } finally {
+      cleanup();
+      this.releaseInput(input, pdfBuffer);
+      try {
+        await fs.promises.rm(outputDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
       }
     }
-
-    const results: TextResult[] = [];
-
-    // Extract text from each page
-    for (let page = startPage; page <= endPage; page++) {
-      const pageText = await this.text(pdfBuffer, {
-        ...options,
-        firstPage: page,
-        lastPage: page,
-      });
-      results.push({ page, text: pageText });
-    }
-
-    return results;
   }
 
   /**
-   * List fonts used in PDF
+   * Extract embedded images using an async iterator (memory efficient for large PDFs)
+   * Images are extracted one page at a time, so only a single page's images
+   * are held on disk and only a single image is held in memory.
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @param options - Options including password for encrypted PDFs
-   * @returns Array of FontInfo objects
+   * @param options - Image extraction options
+   * @yields { page, num, name, format, data, meta } for each image
    */
-  async listFonts(
+  async *extractImagesIterator(
     input: PdfInput,
-    options: { password?: string } = {}
-  ): Promise<FontInfo[]> {
+    options: ExtractImagesOptions = {}
+  ): AsyncGenerator<ExtractedImage, void, unknown> {
     const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdffonts'));
-
-    const args: string[] = [];
-
-    // Password
-    if (options.password) {
-      args.push('-upw', options.password);
-    }
-
-    args.push('-'); // stdin input
-
-    return new Promise((resolve, reject) => {
-      const proc = spawn(binary, args, {
-        ...this.execOptions,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+    const { tempFile, cleanup } = await this.spillToTempFile(pdfBuffer, 'pdf-poppler-images');
 
-      let stdout = '';
-      let stderr = '';
+    try {
+      options = await this.unlock(pdfBuffer, options, 'extractImagesIterator');
 
-      proc.stdout.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
+      const selected = await this.selectImages(pdfBuffer, tempFile, options);
+      const pages = [...new Set(selected.map(image => image.page))];
 
-      proc.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+      for (const page of pages) {
+        const outputDir = this.createTempPath('pdf-poppler-images');
 
-      proc.on('error', (error: Error) => {
-        reject(this.wrapError(error, stderr));
-      });
+        try {
+          await this.makeTempDir(outputDir);
+          await this.runPdfImages(tempFile, outputDir, page, page, options);
 
-      proc.on('close', (code: number) => {
-        if (code !== 0) {
-          reject(this.wrapError(new Error(`pdffonts exited with code ${code}`), stderr));
-        } else {
-          resolve(this.parseFonts(stdout));
+          const pageImages = selected.filter(image => image.page === page);
+          for (const image of await this.collectImageFiles(outputDir, pageImages)) {
+            yield { ...image, data: await fs.promises.readFile(path.join(outputDir, image.name)) };
+          }
+        } finally {
+          try {
+            await fs.promises.rm(outputDir, { recursive: true, force: true });
+          } catch {
+            // Ignore cleanup errors
+          }
         }
-      });
-
-      proc.stdin.write(pdfBuffer);
-      proc.stdin.end();
-    });
+      }
+    } catch (error) {
+      throw this.tagOperation(error, 'extractImagesIterator');
+    } finally {
+      cleanup();
+      this.releaseInput(input, pdfBuffer);
+    }
   }
 
   /**
-   * Merge multiple PDFs into one
-   * @param inputs - Array of PDF inputs (Buffer, Uint8Array, or Readable stream)
-   * @returns Merged PDF as Buffer
+   * List images matching the page and size filters of the extraction options
    */
-  async merge(inputs: PdfInput[]): Promise<Buffer> {
-    if (!inputs || !Array.isArray(inputs) || inputs.length === 0) {
-      throw new PdfPopplerError('At least one PDF input is required');
-    }
-
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdfunite'));
-    const tempDir = os.tmpdir();
-    const tempFiles: string[] = [];
-    const outputFile = path.join(
-      tempDir,
-      `pdf-poppler-merged-${Date.now()}-${Math.random().toString(36).substring(2, 11)}.pdf`
-    );
+  private async selectImages(
+    pdfBuffer: Buffer,
+    tempFile: string,
+    options: ExtractImagesOptions
+  ): Promise<ListedImage[]> {
+    // Validate requested pages
+    const pages = this.hasPageSelection(options) ? await this.resolvePages(pdfBuffer, options) : null;
+
+    const args = [...this.buildPasswordArgs(options), '-list', tempFile];
+    const { stdout } = await this.execBinary('pdfimages', args, options);
+
+    // Positions count all images of a page, including those filtered out below
+    const pageCounts = new Map<number, number>();
+    const images = this.parseImgdata(stdout).map(meta => {
+      const page = parseInt(meta.page, 10);
+      const position = pageCounts.get(page) ?? 0;
+      pageCounts.set(page, position + 1);
+      return { meta, page, position };
+    });
 
-    try {
-      // Convert all inputs to buffers and write to temp files
-      for (let i = 0; i < inputs.length; i++) {
-        const pdfBuffer = await this.inputToBuffer(inputs[i]);
-        const tempFile = path.join(
-          tempDir,
-          `pdf-poppler-input-${Date.now()}-${i}-${Math.random().toString(36).substring(2, 11)}.pdf`
-        );
-        fs.writeFileSync(tempFile, pdfBuffer);
-        tempFiles.push(tempFile);
+    return images.filter(({ meta, page }) => {
+      if (pages && !pages.includes(page)) {
+        return false;
       }
-
-      // Build pdfunite command: pdfunite input1.pdf input2.pdf ... output.pdf
-      const args = [...tempFiles, outputFile];
-
-      return await new Promise((resolve, reject) => {
-        execFile(binary, args, this.execOptions, (error, stdout, stderr) => {
-          if (error) {
-            return reject(this.wrapError(error, stderr as string));
-          }
-
-          try {
-            const mergedPdf = fs.readFileSync(outputFile);
-            resolve(mergedPdf);
-          } catch (readError) {
-            reject(this.wrapError(readError as Error, stderr as string));
-          }
-        });
-      });
-    } finally {
-      // Clean up all temp files
-      for (const tempFile of tempFiles) {
-        try {
-          fs.unlinkSync(tempFile);
-        } catch {
-          // Ignore cleanup errors
-        }
+      if (options.minWidth !== undefined && parseInt(meta.width, 10) < options.minWidth) {
+        return false;
       }
-      try {
-        fs.unlinkSync(outputFile);
-      } catch {
-        // Ignore cleanup errors
+      if (options.minHeight !== undefined && parseInt(meta.height, 10) < options.minHeight) {
+        return false;
       }
-    }
+      return true;
+    });
   }
 
   /**
-   * Merge multiple PDFs into one and return as stream
-   * @param inputs - Array of PDF inputs (Buffer, Uint8Array, or Readable stream)
-   * @returns Merged PDF as Readable stream
+   * Run pdfimages for a page range, writing images into outputDir
+   * Output files are named img-<page>-<num>.<ext> (pdfimages -p)
    */
-  async mergeToStream(inputs: PdfInput[]): Promise<Readable> {
-    const buffer = await this.merge(inputs);
-    return Readable.from(buffer);
+  private async runPdfImages(
+    tempFile: string,
+    outputDir: string,
+    firstPage: number,
+    lastPage: number,
+    options: ExtractImagesOptions
+  ): Promise<void> {
+    const formatArgs: Record<string, string[]> = {
+      native: ['-all'],
+      png: ['-png'],
+      jpeg: ['-j'],
+    };
+
+    const args = [
+      ...(formatArgs[options.format ?? 'native'] ?? formatArgs.native),
+      '-p',
+      '-f', String(firstPage),
+      '-l', String(lastPage),
+      ...this.buildPasswordArgs(options),
+      tempFile,
+      path.join(outputDir, 'img'),
+    ];
+
+    await this.execBinary('pdfimages', args, options);
   }
 
   /**
-   * Split PDF into individual single-page PDFs
-   * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @returns Array of { page, data: Buffer } for each page
+   * Match files written by pdfimages to their -list metadata, ordered by image number
+   * Files are numbered in extraction order, so sorting a page's files by
+   * number gives each one's position among the images of that page.
    */
-  async split(input: PdfInput): Promise<SplitResult[]> {
-    const pdfBuffer = await this.inputToBuffer(input);
-
-    // Get page count
-    const pdfInfo = await this.info(pdfBuffer);
-    const pageCount = parseInt(pdfInfo.pages, 10);
-
-    const results: SplitResult[] = [];
-
-    // Use pdftocairo to extract each page as a separate PDF
-    // pdftocairo -pdf -f <page> -l <page> supports stdin/stdout
-    for (let page = 1; page <= pageCount; page++) {
-      const pageBuffer = await this.extractSinglePage(pdfBuffer, page);
-      results.push({ page, data: pageBuffer });
+  private async collectImageFiles(
+    outputDir: string,
+    images: ListedImage[]
+  ): Promise<Omit<ExtractedImage, 'data'>[]> {
+    const byPosition = new Map(images.map(image => [`${image.page}:${image.position}`, image]));
+    const files: Array<{ name: string; page: number; fileNum: number; ext: string }> = [];
+
+    for (const name of await fs.promises.readdir(outputDir)) {
+      const match = name.match(/^img-(\d+)-(\d+)\.(\w+)$/);
+      if (!match) continue;
+
+      // Skip sidecar files (CCITT parameters, JBIG2 globals)
+      const ext = match[3].toLowerCase();
+      if (ext === 'params' || ext === 'jb2g') continue;
+
+      files.push({ name, page: parseInt(match[1], 10), fileNum: parseInt(match[2], 10), ext });
+    }
+    files.sort((a, b) => a.fileNum - b.fileNum);
+
+    const results: Omit<ExtractedImage, 'data'>[] = [];
+    const pagePositions = new Map<number, number>();
+    for (const file of files) {
+      const position = pagePositions.get(file.page) ?? 0;
+      pagePositions.set(file.page, position + 1);
+
+      const image = byPosition.get(`${file.page}:${position}`);
+      if (!image) continue;
+
+      results.push({
+        page: file.page,
+        num: parseInt(image.meta.num, 10),
+        name: file.name,
+        format: file.ext === 'jpg' ? 'jpeg' : file.ext,
+        meta: image.meta,
+      });
     }
 
-    return results;
+    return results.sort((a, b) => a.num - b.num);
   }
 
   /**
-   * Split PDF into individual single-page PDF streams
+   * Extract text from PDF
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @returns Array of { page, stream: Readable } for each page
+   * @param options - Text extraction options
+   * @returns All text content as a single string
    */
-  async splitToStreams(input: PdfInput): Promise<SplitStreamResult[]> {
+  async text(input: PdfInput, options: TextOptions = {}): Promise<string> {
     const pdfBuffer = await this.inputToBuffer(input);
 
-    // Get page count
-    const pdfInfo = await this.info(pdfBuffer);
-    const pageCount = parseInt(pdfInfo.pages, 10);
+    try {
+      options = await this.unlock(pdfBuffer, options, 'text');
 
-    const results: SplitStreamResult[] = [];
+      if (!this.hasPageSelection(options)) {
+        return await this.extractText(pdfBuffer, null, options);
+      }
 
-    for (let page = 1; page <= pageCount; page++) {
-      const stream = this.extractSinglePageToStream(pdfBuffer, page);
-      results.push({ page, stream });
+      // pdftotext takes a single page range, so run once per run of consecutive pages
+      const pages = await this.resolvePages(pdfBuffer, options);
+      let text = '';
+      for (const run of this.groupPageRuns(pages)) {
+        text += await this.extractText(pdfBuffer, run, options);
+      }
+      return text;
+    } catch (error) {
+      throw this.tagOperation(error, 'text');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
     }
-
-    return results;
   }
 
   /**
-   * Extract a single page from PDF as Buffer
+   * Extract text from PDF page by page
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Text extraction options
+   * @returns Array of { page, text } for each page
    */
-  private async extractSinglePage(pdfBuffer: Buffer, page: number): Promise<Buffer> {
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdftocairo'));
-    const args = ['-pdf', '-f', String(page), '-l', String(page), '-', '-'];
-
-    return new Promise((resolve, reject) => {
-      const proc = spawn(binary, args, {
-        ...this.execOptions,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
-
-      const chunks: Buffer[] = [];
-      let stderr = '';
+  async textPages(input: PdfInput, options: TextOptions = {}): Promise<TextResult[]> {
+    const pdfBuffer = await this.inputToBuffer(input);
 
-      proc.stdout.on('data', (chunk: Buffer) => {
-        chunks.push(chunk);
-      });
+    try {
+      options = await this.unlock(pdfBuffer, options, 'textPages');
 
-      proc.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+      const pages = await this.resolvePages(pdfBuffer, options);
 
-      proc.on('error', (error: Error) => {
-        reject(this.wrapError(error, stderr));
-      });
+      const results: TextResult[] = [];
 
-      proc.on('close', (code: number) => {
-        if (code !== 0) {
-          reject(this.wrapError(new Error(`pdftocairo exited with code ${code}`), stderr));
-        } else {
-          resolve(Buffer.concat(chunks));
-        }
-      });
+      // Extract text from each page
+      for (const page of pages) {
+        const pageText = await this.extractText(pdfBuffer, [page, page], options);
+        results.push({ page, text: pageText });
+      }
 
-      proc.stdin.write(pdfBuffer);
-      proc.stdin.end();
-    });
+      return results;
+    } catch (error) {
+      throw this.tagOperation(error, 'textPages');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
   }
 
   /**
-   * Extract a single page from PDF as Readable stream
+   * Run pdftotext over a page range
+   * @param run - First and last page, or null for all pages
    */
-  private extractSinglePageToStream(pdfBuffer: Buffer, page: number): Readable {
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdftocairo'));
-    const args = ['-pdf', '-f', String(page), '-l', String(page), '-', '-'];
-
-    const proc = spawn(binary, args, {
-      ...this.execOptions,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    proc.stdin.write(pdfBuffer);
-    proc.stdin.end();
+  private async extractText(
+    pdfBuffer: Buffer,
+    run: [number, number] | null,
+    options: TextOptions
+  ): Promise<string> {
+    const args = this.buildTextArgs(options, run);
+    args.push(this.getInputArg(pdfBuffer)); // input file or stdin
+    args.push('-'); // stdout output
 
-    return this.createManagedStream(proc);
+    const stdout = await this.withCache(
+      await this.getCacheKey(pdfBuffer, 'pdftotext', args),
+      () => this.runBinary('pdftotext', args, pdfBuffer, options)
+    );
+    return stdout.toString();
   }
 
   /**
-   * List attachments in PDF
+   * Extract text with word bounding boxes (pdftotext -bbox-layout)
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @returns Array of Attachment objects
+   * @param options - Page selection, passwords and abort signal
+   * @returns Array of pages, each holding flows → blocks → lines → words
+   *          with coordinates in points
    */
-  async listAttachments(input: PdfInput): Promise<Attachment[]> {
+  async textLayout(input: PdfInput, options: TextLayoutOptions = {}): Promise<TextLayoutPage[]> {
     const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdfdetach'));
-    const tempDir = os.tmpdir();
-    const tempFile = path.join(
-      tempDir,
-      `pdf-poppler-detach-${Date.now()}-${Math.random().toString(36).substring(2, 11)}.pdf`
-    );
 
     try {
-      fs.writeFileSync(tempFile, pdfBuffer);
+      options = await this.unlock(pdfBuffer, options, 'textLayout');
+
+      // Validate requested pages, then extract the range they span in one run
+      const selectedPages = this.hasPageSelection(options)
+        ? await this.resolvePages(pdfBuffer, options)
+        : null;
+      const firstPage = selectedPages ? Math.min(...selectedPages) : 1;
+
+      const args = ['-bbox-layout', ...this.buildPasswordArgs(options)];
+      if (selectedPages) {
+        args.push('-f', String(firstPage));
+        args.push('-l', String(Math.max(...selectedPages)));
+      }
+      args.push(this.getInputArg(pdfBuffer)); // input file or stdin
+      args.push('-'); // stdout output
 
-      return await new Promise((resolve, reject) => {
-        execFile(binary, ['-list', tempFile], this.execOptions, (error, stdout, stderr) => {
-          if (error) {
-            return reject(this.wrapError(error, stderr as string));
-          }
-          resolve(this.parseAttachments(stdout as string));
-        });
+      const stdout = await this.runBinary('pdftotext', args, pdfBuffer, options);
+      const pages = this.parseTextLayout(stdout.toString(), firstPage);
+
+      if (!selectedPages) {
+        return pages;
+      }
+
+      // Return pages in the order they were selected
+      const byNumber = new Map(pages.map(layout => [layout.page, layout]));
+      return selectedPages.map(page => {
+        const layout = byNumber.get(page);
+        if (!layout) {
+          throw new PdfPopplerError(`pdftotext returned no layout for page ${page}`);
+        }
+        return layout;
       });
+    } catch (error) {
+      throw this.tagOperation(error, 'textLayout');
     } finally {
-      try {
-        fs.unlinkSync(tempFile);
-      } catch {
-        // Ignore cleanup errors
-      }
+      this.releaseInput(input, pdfBuffer);
     }
   }
 
   /**
-   * Extract a specific attachment by index
+   * List fonts used in PDF
    * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @param index - Attachment index (1-indexed)
-   * @returns Attachment data as Buffer
+   * @param options - Page selection, password for encrypted PDFs and abort signal
+   * @returns Array of FontInfo objects (fonts used on the selected pages)
    */
-  async extractAttachment(input: PdfInput, index: number): Promise<Buffer> {
+  async listFonts(input: PdfInput, options: FontOptions = {}): Promise<FontInfo[]> {
     const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdfdetach'));
-    const tempDir = os.tmpdir();
-    const tempFile = path.join(
-      tempDir,
-      `pdf-poppler-detach-${Date.now()}-${Math.random().toString(36).substring(2, 11)}.pdf`
-    );
-    const outputDir = path.join(
-      tempDir,
-      `pdf-poppler-attach-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
-    );
 
     try {
-      fs.writeFileSync(tempFile, pdfBuffer);
-      fs.mkdirSync(outputDir, { recursive: true });
+      options = await this.unlock(pdfBuffer, options, 'listFonts');
 
-      // First get the filename of the attachment
-      const attachments = await this.listAttachments(pdfBuffer);
-      const attachment = attachments.find(a => a.index === index);
-      if (!attachment) {
-        throw new PdfPopplerError(`Attachment ${index} not found`);
+      if (!this.hasPageSelection(options)) {
+        return await this.readFonts(pdfBuffer, null, options);
       }
 
-      return await new Promise((resolve, reject) => {
-        const outputPath = path.join(outputDir, attachment.name);
-        execFile(
-          binary,
-          ['-savefile', String(index), '-o', outputPath, tempFile],
-          this.execOptions,
-          (error, stdout, stderr) => {
-            if (error) {
-              return reject(this.wrapError(error, stderr as string));
-            }
-            try {
-              const data = fs.readFileSync(outputPath);
-              resolve(data);
-            } catch (readError) {
-              reject(this.wrapError(readError as Error, stderr as string));
-            }
-          }
-        );
-      });
-    } finally {
-      try {
-        fs.unlinkSync(tempFile);
-      } catch {
-        // Ignore cleanup errors
-      }
-      try {
-        fs.rmSync(outputDir, { recursive: true, force: true });
-      } catch {
-        // Ignore cleanup errors
+      // pdffonts takes a single page range; fonts shared by several runs are listed once
+      const pages = await this.resolvePages(pdfBuffer, options);
+      const fonts = new Map<string, FontInfo>();
+      for (const run of this.groupPageRuns([...new Set(pages)].sort((a, b) => a - b))) {
+        for (const font of await this.readFonts(pdfBuffer, run, options)) {
+          fonts.set(JSON.stringify(font), font);
+        }
       }
+      return [...fonts.values()];
+    } catch (error) {
+      throw this.tagOperation(error, 'listFonts');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
     }
   }
 
   /**
-   * Extract all attachments from PDF
-   * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @returns Array of { name, data } for each attachment
+   * Run pdffonts over a page range
+   * @param run - First and last page, or null for all pages
    */
-  async extractAllAttachments(input: PdfInput): Promise<ExtractedAttachment[]> {
-    const pdfBuffer = await this.inputToBuffer(input);
-
-    // First list attachments
-    const attachments = await this.listAttachments(pdfBuffer);
+  private async readFonts(
+    pdfBuffer: Buffer,
+    run: [number, number] | null,
+    options: FontOptions
+  ): Promise<FontInfo[]> {
+    const args: string[] = [];
 
-    if (attachments.length === 0) {
-      return [];
+    // Page range
+    if (run) {
+      args.push('-f', String(run[0]));
+      args.push('-l', String(run[1]));
     }
 
-    const results: ExtractedAttachment[] = [];
+    // Passwords
+    args.push(...this.buildPasswordArgs(options));
 
-    // Extract each attachment
-    for (const attachment of attachments) {
-      const data = await this.extractAttachment(pdfBuffer, attachment.index);
-      results.push({ name: attachment.name, data });
-    }
+    args.push(this.getInputArg(pdfBuffer)); // input file or stdin
 
-    return results;
+    const stdout = await this.runBinary('pdffonts', args, pdfBuffer, options);
+    return this.parseFonts(stdout.toString());
   }
 
   /**
-   * Convert PDF to HTML
-   * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @param options - HTML conversion options
-   * @returns HTML content as string
-   * @throws BinaryNotFoundError if pdftohtml is not available
+   * Merge multiple PDFs into one
+   * Whole documents are merged as they are (keeping their bookmarks); sources
+   * with a page selection or passwords contribute the selected pages only.
+   * @param inputs - Array of PDF inputs (Buffer, Uint8Array, or Readable stream),
+   *                 or { input, pages?, password?, ownerPassword?, outline? } sources
+   * @param options - Operation options (abort signal)
+   * @returns Merged PDF as Buffer
+   *
+   * @example
+   * ```typescript
+   * const packet = await poppler.merge([
+   *   coverSheet,
+   *   { input: 'report.pdf', pages: '1-3,7' },
+   *   { input: contract, pages: 'last', password: 'secret' },
+   * ]);
+   * ```
    */
-  async html(input: PdfInput, options: HtmlOptions = {}): Promise<string> {
-    const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdftohtml'));
-
-    // Check if pdftohtml binary exists
-    if (!fs.existsSync(binary)) {
-      throw new BinaryNotFoundError('pdftohtml');
+  async merge(inputs: MergeInput[], options: OperationOptions = {}): Promise<Buffer> {
+    let merged: { outputFile: string; stderr: string; cleanup: () => void };
+    try {
+      merged = await this.runMerge(inputs, options);
+    } catch (error) {
+      throw this.tagOperation(error, 'merge');
     }
 
-    const tempDir = os.tmpdir();
-    const tempFile = path.join(
-      tempDir,
-      `pdf-poppler-html-${Date.now()}-${Math.random().toString(36).substring(2, 11)}.pdf`
-    );
-
     try {
-      fs.writeFileSync(tempFile, pdfBuffer);
-
-      const args = this.buildHtmlArgs(options);
-      args.push('-stdout'); // Output to stdout
-      args.push(tempFile); // Input file
-
-      return await new Promise((resolve, reject) => {
-        execFile(binary, args, this.execOptions, (error, stdout, stderr) => {
-          if (error) {
-            return reject(this.wrapError(error, stderr as string));
-          }
-          resolve(stdout as string);
-        });
-      });
+      return await fs.promises.readFile(merged.outputFile);
+    } catch (readError) {
+      throw this.tagOperation(this.wrapError(readError as Error, merged.stderr), 'merge');
     } finally {
-      try {
-        fs.unlinkSync(tempFile);
-      } catch {
-        // Ignore cleanup errors
-      }
+      merged.cleanup();
     }
   }
 
   /**
-   * Build pdftohtml command arguments from options
+   * Merge multiple PDFs into one and return as stream
+   * The merged file is streamed from disk, so memory use doesn't grow with
+   * the size of the result. Temp files are removed when the stream closes.
+   * @param inputs - Array of PDF inputs (Buffer, Uint8Array, or Readable stream),
+   *                 or { input, pages?, password?, ownerPassword?, outline? } sources
+   * @param options - Operation options (abort signal)
+   * @returns Merged PDF as Readable stream
    */
-  private buildHtmlArgs(options: HtmlOptions): string[] {
-    const args: string[] = [];
-
-    // Page range
-    if (options.page !== undefined) {
-      args.push('-f', String(options.page));
-      args.push('-l', String(options.page));
+  async mergeToStream(inputs: MergeInput[], options: OperationOptions = {}): Promise<Readable> {
+    try {
+      const { outputFile, cleanup } = await this.runMerge(inputs, options);
+      return this.createFileStream(outputFile, cleanup, options.signal);
+    } catch (error) {
+      throw this.tagOperation(error, 'mergeToStream');
+    }
+  }
+
+  /**
+   * Run pdfunite over the inputs
+   * @returns The merged file, pdfunite's stderr and a cleanup function
+   *          removing the merged file and the input temp files
+   */
+  private async runMerge(
+    inputs: MergeInput[],
+    options: OperationOptions
+  ): Promise<{ outputFile: string; stderr: string; cleanup: () => void }> {
+    if (!inputs || !Array.isArray(inputs) || inputs.length === 0) {
+      throw new PdfPopplerError('At least one PDF input is required');
+    }
+
+    const tempFiles: string[] = [];
+    const cleanups: Array<() => void> = [];
+    const outputFile = this.createTempPath('pdf-poppler-merged', '.pdf');
+    // Holds the pages extracted from sources with a page selection or passwords
+    const pagesDir = this.createTempPath('pdf-poppler-merge');
+    const cleanup = () => {
+      for (const cleanupInput of cleanups) {
+        cleanupInput();
+      }
+      try {
+        fs.unlinkSync(outputFile);
+      } catch {
+        // Ignore cleanup errors
+      }
+      try {
+        fs.rmSync(pagesDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    };
+
+    try {
+      // Pass file inputs as they are, write the others to temp files
+      for (let i = 0; i < inputs.length; i++) {
+        let source = this.toMergeSource(inputs[i]);
+        const { input } = source;
+        const pdfBuffer = await this.inputToBuffer(input);
+        const spilled = await this.spillToTempFile(pdfBuffer, 'pdf-poppler-input').catch(error => {
+          this.releaseInput(input, pdfBuffer);
+          throw error;
+        });
+        cleanups.push(() => {
+          spilled.cleanup();
+          this.releaseInput(input, pdfBuffer);
+        });
+        this.throwIfAborted(options.signal);
+        source = await this.unlock(pdfBuffer, { ...source, ...options }, 'merge');
+
+        const encrypted = Boolean(source.password || source.ownerPassword);
+        const selected = this.hasPageSelection(source);
+        if (source.outline && (encrypted || selected)) {
+          throw new PdfPopplerError(
+            `Merge input ${i + 1}: bookmarks can only be kept when merging a whole document without a password`
+          );
+        }
+        if (!encrypted && !selected && source.outline !== false) {
+          tempFiles.push(spilled.tempFile);
+          continue;
+        }
+
+        const pages = await this.resolvePages(pdfBuffer, { ...source, ...options });
+        await this.makeTempDir(pagesDir);
+        tempFiles.push(...await this.extractPageFiles(
+          spilled.tempFile,
+          pages,
+          path.join(pagesDir, `input-${i + 1}`),
+          { ...source, ...options }
+        ));
+      }
+
+      if (tempFiles.length === 0) {
+        throw new PdfPopplerError('The merge inputs select no pages');
+      }
+
+      // Build pdfunite command: pdfunite input1.pdf input2.pdf ... output.pdf
+      const args = [...tempFiles, outputFile];
+      const { stderr } = await this.execBinary('pdfunite', args, options);
+
+      return { outputFile, stderr, cleanup };
+    } catch (error) {
+      cleanup();
+      throw error;
+    }
+  }
+
+  /**
+   * Normalize a merge input to a merge source
+   */
+  private toMergeSource(input: MergeInput): MergeSource {
+    const isSource = typeof input === 'object' &&
+      input !== null &&
+      !(input instanceof Uint8Array) &&
+      typeof (input as Readable).on !== 'function' &&
+      'input' in input;
+    return isSource ? input as MergeSource : { input: input as PdfInput };
+  }
+
+  /**
+   * Write selected pages to single-page PDF files
+   * Unencrypted files are separated losslessly with a single pdfseparate run
+   * over the span of the pages; encrypted files are decrypted through pdftocairo.
+   * @param pdfFile - PDF file
+   * @param pages - Pages in output order (may repeat)
+   * @param prefix - Path prefix of the page files
+   * @returns One file per selected page, in selection order
+   */
+  private async extractPageFiles(
+    pdfFile: string,
+    pages: number[],
+    prefix: string,
+    options: InputOptions
+  ): Promise<string[]> {
+    const uniquePages = [...new Set(pages)].sort((a, b) => a - b);
+
+    if (options.password || options.ownerPassword) {
+      // pdfseparate can't open encrypted files
+      for (const page of uniquePages) {
+        const args = [
+          '-pdf',
+          ...this.buildPasswordArgs(options),
+          '-f', String(page),
+          '-l', String(page),
+          pdfFile,
+          `${prefix}-${page}.pdf`,
+        ];
+        await this.execBinary('pdftocairo', args, options);
+      }
     } else {
-      if (options.firstPage !== undefined) {
-        args.push('-f', String(options.firstPage));
+      const first = uniquePages[0];
+      const last = uniquePages[uniquePages.length - 1];
+      const args = ['-f', String(first), '-l', String(last), pdfFile, `${prefix}-%d.pdf`];
+      await this.execBinary('pdfseparate', args, options);
+    }
+
+    return pages.map(page => `${prefix}-${page}.pdf`);
+  }
+
+  /**
+   * Split PDF into individual single-page PDFs
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Page selection, split mode, passwords and abort signal
+   * @returns Array of { page, data: Buffer } for each selected page
+   */
+  async split(input: PdfInput, options: SplitOptions = {}): Promise<SplitResult[]> {
+    const pdfBuffer = await this.inputToBuffer(input);
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'split');
+
+      const mode = this.validateSplitMode(options.mode);
+      const pages = await this.resolvePages(pdfBuffer, options);
+
+      const results: SplitResult[] = [];
+
+      if (mode === 'lossless') {
+        const { files, cleanup } = await this.separatePages(pdfBuffer, pages, options);
+        try {
+          for (let i = 0; i < pages.length; i++) {
+            results.push({ page: pages[i], data: await fs.promises.readFile(files[i]) });
+          }
+        } finally {
+          cleanup();
+        }
+        return results;
+      }
+
+      // Use pdftocairo to extract each page as a separate PDF
+      // pdftocairo -pdf -f <page> -l <page> supports stdin/stdout
+      for (const page of pages) {
+        const pageBuffer = await this.extractSinglePage(pdfBuffer, page, options);
+        results.push({ page, data: pageBuffer });
+      }
+
+      return results;
+    } catch (error) {
+      throw this.tagOperation(error, 'split');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Split PDF into individual single-page PDF streams
+   * In lossless mode the pages are streamed from temp files, which are
+   * removed once all streams have closed.
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Page selection, split mode, passwords and abort signal
+   * @returns Array of { page, stream: Readable } for each selected page
+   */
+  async splitToStreams(input: PdfInput, options: SplitOptions = {}): Promise<SplitStreamResult[]> {
+    const pdfBuffer = await this.inputToBuffer(input);
+    let mode: SplitMode;
+    let pages: number[];
+    let separated: { files: string[]; cleanup: () => void } | null = null;
+    try {
+      options = await this.unlock(pdfBuffer, options, 'splitToStreams');
+      mode = this.validateSplitMode(options.mode);
+      pages = await this.resolvePages(pdfBuffer, options);
+      if (mode === 'lossless') {
+        separated = await this.separatePages(pdfBuffer, pages, options);
+      }
+    } catch (error) {
+      this.releaseInput(input, pdfBuffer);
+      throw this.tagOperation(error, 'splitToStreams');
+    }
+
+    const results: SplitStreamResult[] = [];
+
+    if (separated) {
+      const { files, cleanup } = separated;
+      let open = pages.length;
+      const onClose = () => {
+        if (--open === 0) {
+          cleanup();
+        }
+      };
+      if (open === 0) {
+        cleanup();
+      }
+
+      pages.forEach((page, i) => {
+        results.push({ page, stream: this.createFileStream(files[i], onClose, options.signal) });
+      });
+      // The page files are complete, so the input is no longer needed
+      this.releaseInput(input, pdfBuffer);
+      return results;
+    }
+
+    for (const page of pages) {
+      const stream = this.extractSinglePageToStream(pdfBuffer, page, options);
+      results.push({ page, stream });
+    }
+
+    this.releaseInputAfter(input, pdfBuffer, results.map(result => result.stream));
+    return results;
+  }
+
+  /**
+   * Extract pages into one PDF
+   * Pages are copied losslessly with pdfseparate and joined with pdfunite;
+   * encrypted PDFs are decrypted through pdftocairo.
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param pages - Pages to extract, in order (may repeat pages)
+   * @param options - Passwords and abort signal
+   * @returns PDF holding the selected pages
+   *
+   * @example
+   * ```typescript
+   * const excerpt = await poppler.extractPages(pdfBuffer, '1-3,7');
+   * ```
+   */
+  async extractPages(input: PdfInput, pages: PageSelection, options: ExtractPagesOptions = {}): Promise<Buffer> {
+    if (pages === undefined || pages === null) {
+      throw new PdfPopplerError('extractPages() needs a page selection');
+    }
+
+    const { signal, onDiagnostic, ...passwords } = options;
+    try {
+      return await this.merge([{ input, pages, ...passwords }], { signal, onDiagnostic });
+    } catch (error) {
+      throw this.tagOperation(error, 'extractPages');
+    }
+  }
+
+  /**
+   * Write the selected pages of a PDF to single-page files with one pdfseparate run
+   * @returns One file per selected page (in selection order) and a cleanup
+   *          function removing them
+   */
+  private async separatePages(
+    pdfBuffer: Buffer,
+    pages: number[],
+    options: InputOptions
+  ): Promise<{ files: string[]; cleanup: () => void }> {
+    const outputDir = this.createTempPath('pdf-poppler-split');
+    const { tempFile, cleanup: cleanupInput } = await this.spillToTempFile(pdfBuffer, 'pdf-poppler-split');
+    const cleanup = () => {
+      try {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    };
+
+    try {
+      await this.makeTempDir(outputDir);
+      const files = pages.length > 0
+        ? await this.extractPageFiles(tempFile, pages, path.join(outputDir, 'page'), options)
+        : [];
+      return { files, cleanup };
+    } catch (error) {
+      cleanup();
+      throw error;
+    } finally {
+      cleanupInput();
+    }
+  }
+
+  /**
+   * Validate a split mode, returning the default for undefined
+   */
+  private validateSplitMode(mode: SplitMode | undefined): SplitMode {
+    if (mode === undefined) {
+      return 'lossless';
+    }
+    if (!SPLIT_MODES.includes(mode)) {
+      throw new PdfPopplerError(`Invalid split mode: ${mode}. Valid modes: ${SPLIT_MODES.join(', ')}`);
+    }
+    return mode;
+  }
+
+  /**
+   * Extract a single page from PDF as Buffer
+   */
+  private async extractSinglePage(
+    pdfBuffer: Buffer,
+    page: number,
+    options: InputOptions
+  ): Promise<Buffer> {
+    const args = [
+      '-pdf',
+      ...this.buildPasswordArgs(options),
+      '-f', String(page),
+      '-l', String(page),
+      this.getInputArg(pdfBuffer),
+      '-',
+    ];
+    return this.runBinary('pdftocairo', args, pdfBuffer, options);
+  }
+
+  /**
+   * Extract a single page from PDF as Readable stream
+   */
+  private extractSinglePageToStream(
+    pdfBuffer: Buffer,
+    page: number,
+    options: InputOptions
+  ): Readable {
+    const binary = path.join(this.binaryPath, this.getBinaryName('pdftocairo'));
+    const args = [
+      '-pdf',
+      ...this.buildPasswordArgs(options),
+      '-f', String(page),
+      '-l', String(page),
+      this.getInputArg(pdfBuffer),
+      '-',
+    ];
+
+    const proc = this.spawnProcess(binary, args, this.execOptions, ['pipe', 'pipe', 'pipe']);
+
+    this.pipeInput(proc, pdfBuffer);
+
+    return this.createManagedStream(proc, 'pdftocairo', args, options.signal);
+  }
+
+  /**
+   * List attachments in PDF
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Passwords and abort signal
+   * @returns Array of Attachment objects
+   */
+  async listAttachments(input: PdfInput, options: InputOptions = {}): Promise<Attachment[]> {
+    const pdfBuffer = await this.inputToBuffer(input);
+    const { tempFile, cleanup } = await this.spillToTempFile(pdfBuffer, 'pdf-poppler-detach');
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'listAttachments');
+      return await this.listAttachmentsFromFile(tempFile, options);
+    } catch (error) {
+      throw this.tagOperation(error, 'listAttachments');
+    } finally {
+      cleanup();
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Extract a specific attachment by index
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param index - Attachment index (1-indexed)
+   * @param options - Passwords and abort signal
+   * @returns Attachment data as Buffer
+   */
+  async extractAttachment(
+    input: PdfInput,
+    index: number,
+    options: InputOptions = {}
+  ): Promise<Buffer> {
+    const pdfBuffer = await this.inputToBuffer(input);
+    const { tempFile, cleanup } = await this.spillToTempFile(pdfBuffer, 'pdf-poppler-detach');
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'extractAttachment');
+
+      // First get the filename of the attachment
+      const attachments = await this.listAttachmentsFromFile(tempFile, options);
+      const attachment = attachments.find(a => a.index === index);
+      if (!attachment) {
+        throw new PdfPopplerError(`Attachment ${index} not found`);
+      }
+
+      return await this.saveAttachmentFromFile(tempFile, attachment, options);
+    } catch (error) {
+      throw this.tagOperation(error, 'extractAttachment');
+    } finally {
+      cleanup();
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Extract all attachments from PDF
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Passwords and abort signal
+   * @returns Array of { name, data } for each attachment
+   */
+  async extractAllAttachments(
+    input: PdfInput,
+    options: InputOptions = {}
+  ): Promise<ExtractedAttachment[]> {
+    const pdfBuffer = await this.inputToBuffer(input);
+    const { tempFile, cleanup } = await this.spillToTempFile(pdfBuffer, 'pdf-poppler-detach');
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'extractAllAttachments');
+
+      // List once, then extract each attachment from the same temp file
+      const attachments = await this.listAttachmentsFromFile(tempFile, options);
+      const results: ExtractedAttachment[] = [];
+
+      for (const attachment of attachments) {
+        const data = await this.saveAttachmentFromFile(tempFile, attachment, options);
+        results.push({ name: attachment.name, data });
+      }
+
+      return results;
+    } catch (error) {
+      throw this.tagOperation(error, 'extractAllAttachments');
+    } finally {
+      cleanup();
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Run pdfdetach -list on a PDF file
+   */
+  private async listAttachmentsFromFile(pdfFile: string, options: InputOptions): Promise<Attachment[]> {
+    const args = ['-list', ...this.buildPasswordArgs(options), pdfFile];
+    const { stdout } = await this.execBinary('pdfdetach', args, options);
+    return this.parseAttachments(stdout);
+  }
+
+  /**
+   * Save a single attachment from a PDF file with pdfdetach -savefile
+   */
+  private async saveAttachmentFromFile(
+    pdfFile: string,
+    attachment: Attachment,
+    options: InputOptions
+  ): Promise<Buffer> {
+    const outputDir = this.createTempPath('pdf-poppler-attach');
+
+    try {
+      await this.makeTempDir(outputDir);
+
+      const outputPath = path.join(outputDir, path.basename(attachment.name));
+      const { stderr } = await this.execBinary(
+        'pdfdetach',
+        ['-savefile', String(attachment.index), '-o', outputPath, ...this.buildPasswordArgs(options), pdfFile],
+        options
+      );
+
+      try {
+        return fs.readFileSync(outputPath);
+      } catch (readError) {
+        throw this.wrapError(readError as Error, stderr);
+      }
+    } finally {
+      try {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+
+  /**
+   * Add a file attachment to PDF
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param attachment - { name, data, replace? } of the file to embed
+   * @param options - Passwords and abort signal
+   * @returns New PDF as Buffer
+   * @throws BinaryNotFoundError if pdfattach is not available
+   */
+  async addAttachment(
+    input: PdfInput,
+    attachment: AttachmentInput,
+    options: InputOptions = {}
+  ): Promise<Buffer> {
+    try {
+      return await this.addAttachments(input, [attachment], options);
+    } catch (error) {
+      throw this.tagOperation(error, 'addAttachment');
+    }
+  }
+
+  /**
+   * Add a file attachment to PDF and return as stream
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param attachment - { name, data, replace? } of the file to embed
+   * @param options - Passwords and abort signal
+   * @returns New PDF as Readable stream
+   */
+  async addAttachmentToStream(
+    input: PdfInput,
+    attachment: AttachmentInput,
+    options: InputOptions = {}
+  ): Promise<Readable> {
+    try {
+      return Readable.from(await this.addAttachment(input, attachment, options));
+    } catch (error) {
+      throw this.tagOperation(error, 'addAttachmentToStream');
+    }
+  }
+
+  /**
+   * Add multiple file attachments to PDF
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param attachments - Array of { name, data, replace? } for each file to embed
+   * @param options - Passwords and abort signal
+   * @returns New PDF as Buffer
+   * @throws BinaryNotFoundError if pdfattach is not available
+   */
+  async addAttachments(
+    input: PdfInput,
+    attachments: AttachmentInput[],
+    options: InputOptions = {}
+  ): Promise<Buffer> {
+    if (!attachments || !Array.isArray(attachments) || attachments.length === 0) {
+      throw new PdfPopplerError('At least one attachment is required');
+    }
+
+    for (const attachment of attachments) {
+      if (
+        !attachment ||
+        !attachment.name ||
+        attachment.name === '.' ||
+        attachment.name === '..' ||
+        /[\/\\]/.test(attachment.name)
+      ) {
+        throw new PdfPopplerError(`Invalid attachment name: ${attachment?.name}`);
+      }
+    }
+
+    // Check if pdfattach binary exists (before the input, which may not be a PDF)
+    const binary = path.join(this.binaryPath, this.getBinaryName('pdfattach'));
+    if (!fs.existsSync(binary)) {
+      throw this.tagOperation(new BinaryNotFoundError('pdfattach'), 'addAttachments');
+    }
+
+    const pdfBuffer = await this.inputToBuffer(input);
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'addAttachments');
+
+      // pdfattach takes no passwords; PDFs with only an owner password open without one
+      if (options.password) {
+        throw new PdfPopplerError('pdfattach cannot open PDFs that need a user password');
+      }
+
+      // pdfattach embeds one file per run and names the attachment after the
+      // file it reads, so each file is written under its attachment name
+      // and the output of one run becomes the input of the next
+      const workDir = this.createTempPath('pdf-poppler-attach');
+
+      try {
+        await this.makeTempDir(workDir);
+
+        let currentFile = this.getInputArg(pdfBuffer);
+        if (currentFile === '-') {
+          currentFile = path.join(workDir, 'input-0.pdf');
+          await fs.promises.writeFile(currentFile, pdfBuffer);
+        }
+
+        for (let i = 0; i < attachments.length; i++) {
+          const attachment = attachments[i];
+          const attachDir = path.join(workDir, `file-${i}`);
+          const attachFile = path.join(attachDir, attachment.name);
+          const outputFile = path.join(workDir, `input-${i + 1}.pdf`);
+
+          await fs.promises.mkdir(attachDir);
+          await fs.promises.writeFile(attachFile, attachment.data);
+
+          const args = attachment.replace ? ['-replace'] : [];
+          args.push(currentFile, attachFile, outputFile);
+
+          await this.execBinary('pdfattach', args, options);
+
+          currentFile = outputFile;
+        }
+
+        return await fs.promises.readFile(currentFile);
+      } catch (error) {
+        throw this.wrapTempError(error);
+      } finally {
+        try {
+          await fs.promises.rm(workDir, { recursive: true, force: true });
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    } catch (error) {
+      throw this.tagOperation(error, 'addAttachments');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Add multiple file attachments to PDF and return as stream
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param attachments - Array of { name, data, replace? } for each file to embed
+   * @param options - Passwords and abort signal
+   * @returns New PDF as Readable stream
+   */
+  async addAttachmentsToStream(
+    input: PdfInput,
+    attachments: AttachmentInput[],
+    options: InputOptions = {}
+  ): Promise<Readable> {
+    try {
+      return Readable.from(await this.addAttachments(input, attachments, options));
+    } catch (error) {
+      throw this.tagOperation(error, 'addAttachmentsToStream');
+    }
+  }
+
+  /**
+   * Convert PDF to HTML
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - HTML conversion options
+   * @returns HTML content as string
+   * @throws BinaryNotFoundError if pdftohtml is not available
+   */
+  async html(input: PdfInput, options: HtmlOptions = {}): Promise<string> {
+    // Check if pdftohtml binary exists
+    const binary = path.join(this.binaryPath, this.getBinaryName('pdftohtml'));
+    if (!fs.existsSync(binary)) {
+      throw this.tagOperation(new BinaryNotFoundError('pdftohtml'), 'html');
+    }
+
+    const pdfBuffer = await this.inputToBuffer(input);
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'html');
+
+      // pdftohtml renders a single page range into one document
+      const run = await this.resolvePageRun(pdfBuffer, options, 'html()');
+
+      const { tempFile, cleanup } = await this.spillToTempFile(pdfBuffer, 'pdf-poppler-html');
+
+      try {
+        const args = this.buildHtmlArgs(options, run);
+        args.push('-stdout'); // Output to stdout
+        args.push(tempFile); // Input file
+
+        const { stdout } = await this.execBinary('pdftohtml', args, options);
+        return stdout;
+      } finally {
+        cleanup();
+      }
+    } catch (error) {
+      throw this.tagOperation(error, 'html');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Build pdftohtml command arguments from options
+   */
+  private buildHtmlArgs(options: HtmlOptions, run: [number, number] | null): string[] {
+    const args: string[] = [];
+
+    // Page range
+    if (run) {
+      args.push('-f', String(run[0]));
+      args.push('-l', String(run[1]));
+    }
+
+    // Passwords
+    args.push(...this.buildPasswordArgs(options));
+
+    // No frames
+    if (options.noFrames) {
+      args.push('-noframes');
+    }
+
+    // Complex HTML
+    if (options.complex) {
+      args.push('-c');
+    }
+
+    // Single page
+    if (options.singlePage) {
+      args.push('-s');
+    }
+
+    // Ignore images
+    if (options.ignoreImages) {
+      args.push('-i');
+    }
+
+    // Zoom
+    if (options.zoom !== undefined) {
+      args.push('-zoom', String(options.zoom));
+    }
+
+    return args;
+  }
+
+  /**
+   * Convert PDF to a single PostScript (or EPS) document using pdftops
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - PostScript options (level, paper, duplex, pages, ...)
+   * @returns PostScript document as Buffer
+   */
+  async toPostScript(input: PdfInput, options: PostScriptOptions = {}): Promise<Buffer> {
+    const pdfBuffer = await this.inputToBuffer(input);
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'toPostScript');
+
+      const args = await this.buildPostScriptArgs(pdfBuffer, options);
+      args.push(this.getInputArg(pdfBuffer)); // input file or stdin
+      args.push('-'); // stdout output
+
+      return await this.runBinary('pdftops', args, pdfBuffer, options);
+    } catch (error) {
+      throw this.tagOperation(error, 'toPostScript');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Convert PDF to a single PostScript (or EPS) document, returning a stream
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - PostScript options (level, paper, duplex, pages, ...)
+   * @returns PostScript document as Readable stream
+   */
+  async toPostScriptStream(input: PdfInput, options: PostScriptOptions = {}): Promise<Readable> {
+    const pdfBuffer = await this.inputToBuffer(input);
+    const binary = path.join(this.binaryPath, this.getBinaryName('pdftops'));
+
+    let args: string[];
+    try {
+      options = await this.unlock(pdfBuffer, options, 'toPostScriptStream');
+      args = await this.buildPostScriptArgs(pdfBuffer, options);
+    } catch (error) {
+      this.releaseInput(input, pdfBuffer);
+      throw this.tagOperation(error, 'toPostScriptStream');
+    }
+    args.push(this.getInputArg(pdfBuffer)); // input file or stdin
+    args.push('-'); // stdout output
+
+    const proc = this.spawnProcess(binary, args, this.execOptions, ['pipe', 'pipe', 'pipe']);
+
+    this.pipeInput(proc, pdfBuffer);
+
+    const stream = this.createManagedStream(proc, 'pdftops', args, options.signal);
+    this.releaseInputAfter(input, pdfBuffer, [stream]);
+    return stream;
+  }
+
+  /**
+   * Build pdftops command arguments from options
+   */
+  private async buildPostScriptArgs(pdfBuffer: Buffer, options: PostScriptOptions): Promise<string[]> {
+    const args: string[] = [];
+
+    // Language level
+    if (options.level !== undefined) {
+      if (![1, 2, 3].includes(options.level)) {
+        throw new PdfPopplerError(`Invalid PostScript level: ${options.level}. Valid levels: 1, 2, 3`);
+      }
+      args.push(`-level${options.level}`);
+    }
+
+    // Page range; EPS files hold exactly one page
+    let run = await this.resolvePageRun(pdfBuffer, options, 'toPostScript()');
+    if (options.eps) {
+      if (!run) {
+        const pdfInfo = await this.loadInfo(pdfBuffer, options);
+        const pageCount = parseInt(pdfInfo.pages, 10);
+        run = [1, pageCount];
+      }
+      if (run[0] !== run[1]) {
+        throw new PdfPopplerError('EPS output requires a single page; select one with the pages option');
+      }
+      args.push('-eps');
+    }
+    if (run) {
+      args.push('-f', String(run[0]));
+      args.push('-l', String(run[1]));
+    }
+
+    // Paper size
+    if (typeof options.paper === 'string') {
+      args.push('-paper', options.paper);
+    } else if (options.paper) {
+      const { width, height } = options.paper;
+      if (!(width > 0) || !(height > 0)) {
+        throw new PdfPopplerError(`Invalid paper size: ${JSON.stringify(options.paper)}`);
+      }
+      args.push('-paperw', String(Math.round(width)));
+      args.push('-paperh', String(Math.round(height)));
+    }
+
+    // Page placement
+    if (options.duplex) {
+      args.push('-duplex');
+    }
+    if (options.expand) {
+      args.push('-expand');
+    }
+    if (options.noShrink) {
+      args.push('-noshrink');
+    }
+    if (options.noCenter) {
+      args.push('-nocenter');
+    }
+
+    // Password options
+    args.push(...this.buildPasswordArgs(options));
+
+    return args;
+  }
+
+  /**
+   * Verify digital signatures in PDF
+   * @param input - PDF as Buffer, Uint8Array, or Readable stream
+   * @param options - Passwords and abort signal
+   * @returns SignatureInfo with signed status and signature details
+   * @throws BinaryNotFoundError if pdfsig is not available
+   */
+  async verifySignatures(input: PdfInput, options: InputOptions = {}): Promise<SignatureInfo> {
+    // Check if pdfsig binary exists
+    const binary = path.join(this.binaryPath, this.getBinaryName('pdfsig'));
+    if (!fs.existsSync(binary)) {
+      throw this.tagOperation(new BinaryNotFoundError('pdfsig'), 'verifySignatures');
+    }
+
+    const pdfBuffer = await this.inputToBuffer(input);
+
+    try {
+      options = await this.unlock(pdfBuffer, options, 'verifySignatures');
+
+      // pdfsig supports stdin with '-'
+      const args = [...this.buildPasswordArgs(options), this.getInputArg(pdfBuffer)];
+      const stdout = await this.runBinary('pdfsig', args, pdfBuffer, options);
+      return this.parseSignatures(stdout.toString());
+    } catch (error) {
+      throw this.tagOperation(error, 'verifySignatures');
+    } finally {
+      this.releaseInput(input, pdfBuffer);
+    }
+  }
+
+  /**
+   * Parse pdfsig output
+   */
+  private parseSignatures(stdout: string): SignatureInfo {
+    const lines = stdout.trim().split(/\r?\n/);
+    const signatures: SignatureDetails[] = [];
+
+    // Check if document is signed
+    const hasNoSignatures = lines.some(line =>
+      line.toLowerCase().includes('does not contain any signatures') ||
+      line.toLowerCase().includes('no signatures')
+    );
+
+    if (hasNoSignatures) {
+      return { signed: false, signatures: [] };
+    }
+
+    // Parse signature information
+    // pdfsig output format varies, but typically includes:
+    // - Signature #N
+    // - Signer name, certificate info, time, etc.
+    let currentSig: Partial<SignatureDetails> | null = null;
+
+    for (const line of lines) {
+      const lowerLine = line.toLowerCase();
+
+      // New signature block
+      if (lowerLine.includes('signature #') || lowerLine.match(/^signature \d+/)) {
+        if (currentSig) {
+          signatures.push({
+            valid: currentSig.valid ?? false,
+            trusted: currentSig.trusted ?? false,
+            ...currentSig,
+          });
+        }
+        currentSig = { valid: false, trusted: false };
+      }
+
+      if (currentSig) {
+        // Parse signature details
+        if (lowerLine.includes('signer') && line.includes(':')) {
+          currentSig.signerName = line.split(':').slice(1).join(':').trim();
+        }
+        if (lowerLine.includes('certificate') && line.includes(':')) {
+          currentSig.signerCertificate = line.split(':').slice(1).join(':').trim();
+        }
+        if (lowerLine.includes('time') && line.includes(':')) {
+          currentSig.signTime = line.split(':').slice(1).join(':').trim();
+        }
+        if (lowerLine.includes('hash algorithm') && line.includes(':')) {
+          currentSig.hashAlgorithm = line.split(':').slice(1).join(':').trim();
+        }
+        if (lowerLine.includes('signature is valid')) {
+          currentSig.valid = true;
+        }
+        if (lowerLine.includes('certificate is trusted')) {
+          currentSig.trusted = true;
+        }
+      }
+    }
+
+    // Add last signature if exists
+    if (currentSig) {
+      signatures.push({
+        valid: currentSig.valid ?? false,
+        trusted: currentSig.trusted ?? false,
+        ...currentSig,
+      });
+    }
+
+    return {
+      signed: signatures.length > 0,
+      signatures,
+    };
+  }
+
+  /**
+   * Parse pdfdetach -list output
+   * Output format:
+   * 1 File attachments
+   * 1: name.txt
+   * 2: file.pdf
+   */
+  private parseAttachments(stdout: string): Attachment[] {
+    const lines = stdout.trim().split(/\r?\n/);
+    const attachments: Attachment[] = [];
+
+    // Skip header line(s)
+    for (const line of lines) {
+      // Match lines like "1: filename.txt" or "  1: filename.txt"
+      const match = line.match(/^\s*(\d+):\s+(.+)$/);
+      if (match) {
+        attachments.push({
+          index: parseInt(match[1], 10),
+          name: match[2].trim(),
+          size: 0, // pdfdetach -list doesn't show size
+        });
+      }
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Build pdftotext command arguments from options
+   */
+  private buildTextArgs(options: TextOptions, run: [number, number] | null): string[] {
+    const args: string[] = [];
+
+    // Page range
+    if (run) {
+      args.push('-f', String(run[0]));
+      args.push('-l', String(run[1]));
+    }
+
+    // Layout options
+    if (options.layout) {
+      args.push('-layout');
+    }
+    if (options.raw) {
+      args.push('-raw');
+    }
+
+    // Passwords
+    args.push(...this.buildPasswordArgs(options));
+
+    // Encoding
+    if (options.encoding) {
+      args.push('-enc', options.encoding);
+    }
+
+    // End of line
+    if (options.eol) {
+      args.push('-eol', options.eol);
+    }
+
+    // Other options
+    if (options.noDiag) {
+      args.push('-nodiag');
+    }
+    if (options.noPageBreaks) {
+      args.push('-nopgbrk');
+    }
+
+    return args;
+  }
+
+  // ===================
+  // Utility Methods
+  // ===================
+
+  /**
+   * Get the resolved binary path
+   */
+  getPath(): string {
+    return this.binaryPath;
+  }
+
+  /**
+   * Get current exec options
+   */
+  getExecOptions(): ExecFileOptions {
+    return { ...this.execOptions };
+  }
+
+  /**
+   * Check if running in Lambda environment
+   */
+  isLambdaEnvironment(): boolean {
+    return this.resolvedConfig.isLambda;
+  }
+
+  /**
+   * Check if using bundled xvfb
+   */
+  hasBundledXvfb(): boolean {
+    return (
+      this.binaryPath.includes('-xvfb') ||
+      this.binaryPath.includes('poppler-xvfb')
+    );
+  }
+
+  /**
+   * Get detected poppler version
+   */
+  getVersion(): string | null {
+    const match = this.binaryPath.match(/poppler-(\d+\.\d+)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Get available versions for current platform
+   */
+  getAvailableVersions(): VersionInfo[] {
+    const resolver = new BinaryResolver(this.resolvedConfig);
+    return resolver.discoverVersions();
+  }
+
+  /**
+   * Get the resolved configuration
+   */
+  getConfig(): Readonly<ResolvedConfig> {
+    return { ...this.resolvedConfig };
+  }
+
+  // ===================
+  // Private Methods
+  // ===================
+
+  /**
+   * Resolve user config with smart defaults
+   */
+  private resolveConfig(userConfig: PdfPopplerConfig): ResolvedConfig {
+    const envConfig = this.loadEnvironmentConfig();
+    const platform = (userConfig.platform ??
+      envConfig.platform ??
+      os.platform()) as Platform;
+    const isLambda =
+      userConfig.isLambda ?? envConfig.isLambda ?? this.envDetector.isLambda();
+    const isCI = userConfig.isCI ?? envConfig.isCI ?? this.envDetector.isCI();
+
+    // In headless environments, default to xvfb unless explicitly disabled
+    const isHeadless = isLambda || isCI;
+    const preferXvfb =
+      userConfig.preferXvfb ??
+      envConfig.preferXvfb ??
+      (isHeadless ? process.env.POPPLER_PREFER_XVFB !== 'false' : false);
+
+    return {
+      platform,
+      isLambda,
+      isCI,
+      preferXvfb,
+      binaryPath: userConfig.binaryPath ?? envConfig.binaryPath,
+      binaryPackage: userConfig.binaryPackage ?? envConfig.binaryPackage,
+      version: userConfig.version ?? envConfig.version,
+      concurrency: this.validateConcurrency(userConfig.concurrency ?? 1),
+      renderer: this.validateRenderer(userConfig.renderer ?? envConfig.renderer ?? 'cairo'),
+      cache: userConfig.cache,
+      maxInputBytes: this.validateMaxInputBytes(userConfig.maxInputBytes ?? envConfig.maxInputBytes),
+      passwordProvider: userConfig.passwordProvider,
+      onDiagnostic: userConfig.onDiagnostic,
+      errorRules: userConfig.errorRules ?? [],
+      validateInput: userConfig.validateInput ?? true,
+      execOptions: {
+        encoding: 'utf8' as BufferEncoding,
+        maxBuffer:
+          userConfig.execOptions?.maxBuffer ??
+          envConfig.execOptions?.maxBuffer ??
+          5000 * 1024,
+        timeout: userConfig.execOptions?.timeout ?? envConfig.execOptions?.timeout,
+        env: { ...envConfig.execOptions?.env, ...userConfig.execOptions?.env },
+      },
+    };
+  }
+
+  /**
+   * Validate a concurrency setting (positive integer)
+   */
+  private validateConcurrency(concurrency: number): number {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new PdfPopplerError(`Invalid concurrency: ${concurrency} (must be a positive integer)`);
+    }
+    return concurrency;
+  }
+
+  /**
+   * Validate a size in pixels (or count) that must be a positive integer
+   */
+  private validateSize(name: string, value: number): void {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new PdfPopplerError(`Invalid ${name}: ${value} (must be a positive integer)`);
+    }
+  }
+
+  /**
+   * Validate the input size limit (non-negative integer, or undefined for no limit)
+   */
+  private validateMaxInputBytes(maxInputBytes: number | undefined): number | undefined {
+    if (maxInputBytes !== undefined && (!Number.isInteger(maxInputBytes) || maxInputBytes < 0)) {
+      throw new PdfPopplerError(`Invalid maxInputBytes: ${maxInputBytes} (must be a non-negative integer)`);
+    }
+    return maxInputBytes;
+  }
+
+  /**
+   * Validate a renderer setting
+   */
+  private validateRenderer(renderer: Renderer): Renderer {
+    if (renderer !== 'cairo' && renderer !== 'splash') {
+      throw new PdfPopplerError(`Invalid renderer: ${renderer}. Valid renderers: cairo, splash`);
+    }
+    return renderer;
+  }
+
+  /**
+   * Load configuration from environment variables
+   */
+  private loadEnvironmentConfig(): Partial<PdfPopplerConfig> {
+    return {
+      binaryPath: process.env.POPPLER_BINARY_PATH,
+      binaryPackage: process.env.POPPLER_BINARY_PACKAGE,
+      version: process.env.POPPLER_VERSION,
+      renderer: process.env.POPPLER_RENDERER as Renderer | undefined,
+      maxInputBytes: process.env.POPPLER_MAX_INPUT_BYTES
+        ? parseInt(process.env.POPPLER_MAX_INPUT_BYTES, 10)
+        : undefined,
+      preferXvfb:
+        process.env.POPPLER_PREFER_XVFB !== undefined
+          ? process.env.POPPLER_PREFER_XVFB === 'true'
+          : undefined,
+    };
+  }
+
+  /**
+   * Build exec options for child_process
+   */
+  private buildExecOptions(): ExecFileOptions {
+    const options: ExecFileOptions = {
+      encoding: this.resolvedConfig.execOptions.encoding,
+      maxBuffer: this.resolvedConfig.execOptions.maxBuffer,
+      timeout: this.resolvedConfig.execOptions.timeout,
+      shell: false,
+    };
+
+    // Platform-specific environment setup
+    if (this.resolvedConfig.platform === 'linux') {
+      options.env = this.buildLinuxEnv();
+    } else {
+      options.env = { ...process.env };
+    }
+
+    // Merge user-provided env
+    if (this.resolvedConfig.execOptions.env) {
+      options.env = { ...options.env, ...this.resolvedConfig.execOptions.env };
+    }
+
+    return options;
+  }
+
+  /**
+   * Build environment variables for Linux
+   */
+  private buildLinuxEnv(): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = { ...process.env };
+
+    // Set up library path
+    const popplerDir = this.binaryPath.replace(/[\/\\]bin$/, '');
+    const libPath = path.join(popplerDir, 'lib');
+
+    if (fs.existsSync(libPath)) {
+      env.LD_LIBRARY_PATH = env.LD_LIBRARY_PATH
+        ? `${libPath}:${env.LD_LIBRARY_PATH}`
+        : libPath;
+    }
+
+    // Add fontconfig environment variables if available (from fonts package)
+    if (this.fontconfigEnv) {
+      Object.assign(env, this.fontconfigEnv);
+    }
+
+    // Lambda-specific settings
+    if (this.resolvedConfig.isLambda) {
+      env.DISPLAY = ':99';
+      env.XAUTHORITY = '/tmp/.Xauth';
+
+      // Add Lambda Layer lib paths if they exist
+      if (fs.existsSync('/opt/lib')) {
+        env.LD_LIBRARY_PATH = `/opt/lib:${env.LD_LIBRARY_PATH || ''}`;
+      }
+
+      // Set XKB config path for bundled keyboard config
+      const xkbPath = path.join(popplerDir, 'share', 'xkb');
+      if (fs.existsSync(xkbPath)) {
+        env.XKB_CONFIG_ROOT = xkbPath;
+      }
+    }
+
+    return env;
+  }
+
+  /**
+   * Get platform-specific binary name
+   */
+  private getBinaryName(base: string): string {
+    return this.resolvedConfig.platform === 'win32' ? `${base}.exe` : base;
+  }
+
+  /**
+   * Make binaries executable on Unix platforms
+   */
+  private ensureExecutable(): void {
+    if (this.resolvedConfig.platform === 'win32') return;
+
+    try {
+      const popplerDir = this.binaryPath.replace(/[\/\\]bin$/, '');
+      // Use spawn to avoid blocking, but we don't wait for it
+      const { spawn } = require('child_process');
+      spawn('chmod', ['-R', '755', popplerDir], { stdio: 'ignore' });
+    } catch {
+      // Ignore errors - permission may already be set or not needed
+    }
+  }
+
+  /**
+   * Convert any input type to Buffer and check that it looks like a PDF
+   * File paths and streams are not read into memory: paths are passed to
+   * poppler as they are, streams are spooled to a temp file. Both are keyed
+   * by an empty Buffer registered in fileInputs. Callers release spooled
+   * inputs with releaseInput() when the operation finishes.
+   */
+  private async inputToBuffer(input: PdfInput): Promise<Buffer> {
+    const pdfBuffer = await this.convertInput(input);
+
+    // Buffers registered in fileInputs were checked when they were created
+    const registered = Buffer.isBuffer(input) && this.fileInputs.has(input);
+    if (this.resolvedConfig.validateInput && !registered) {
+      try {
+        assertPdf(await this.sniffInput(pdfBuffer));
+      } catch (error) {
+        this.releaseInput(input, pdfBuffer);
+        throw error;
+      }
+    }
+    return pdfBuffer;
+  }
+
+  /**
+   * Convert any input type to Buffer (see inputToBuffer())
+   */
+  private async convertInput(input: PdfInput): Promise<Buffer> {
+    // Validate input
+    if (input === null || input === undefined) {
+      throw new InvalidPdfError('Input cannot be null or undefined');
+    }
+
+    // Handle file path (string)
+    if (typeof input === 'string') {
+      let stats: fs.Stats;
+      try {
+        stats = await fs.promises.stat(input);
+      } catch {
+        throw new InvalidPdfError(`File not found: ${input}`);
+      }
+      if (!stats.isFile()) {
+        throw new InvalidPdfError(`Not a file: ${input}`);
+      }
+      this.checkInputSize(stats.size);
+
+      // Absolute, so the path can't be mistaken for an option
+      return this.registerFileInput({ filePath: path.resolve(input) });
+    }
+
+    if (Buffer.isBuffer(input)) {
+      this.checkInputSize(input.length);
+      return input;
+    }
+    if (input instanceof Uint8Array) {
+      this.checkInputSize(input.length);
+      return Buffer.from(input);
+    }
+
+    // Check if it's a readable stream (has .on method)
+    if (typeof (input as Readable).on !== 'function') {
+      throw new InvalidPdfError('Input must be a file path, Buffer, Uint8Array, or Readable stream');
+    }
+
+    return this.spoolStream(input);
+  }
+
+  /**
+   * Detect the format of an input from its first and last bytes
+   */
+  private async sniffInput(pdfBuffer: Buffer): Promise<SniffResult> {
+    const fileInput = this.fileInputs.get(pdfBuffer);
+    if (!fileInput) {
+      return sniffFormat(
+        pdfBuffer.subarray(0, HEAD_BYTES),
+        pdfBuffer.subarray(Math.max(0, pdfBuffer.length - TAIL_BYTES)),
+        pdfBuffer.length
+      );
+    }
+
+    const file = await fs.promises.open(fileInput.filePath, 'r');
+    try {
+      const { size } = await file.stat();
+      const head = Buffer.alloc(Math.min(size, HEAD_BYTES));
+      const tail = Buffer.alloc(Math.min(size, TAIL_BYTES));
+      await file.read(head, 0, head.length, 0);
+      await file.read(tail, 0, tail.length, size - tail.length);
+      return sniffFormat(head, tail, size);
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Write a stream input to a temp file, stopping at maxInputBytes
+   */
+  private async spoolStream(input: Readable): Promise<Buffer> {
+    const { maxInputBytes, cache } = this.resolvedConfig;
+    const filePath = this.createTempPath('pdf-poppler-input', '.pdf');
+
+    // Hash while spooling so cache keys don't need to read the file again
+    const hash = cache ? createHash('sha256') : null;
+    let size = 0;
+    const measure = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (maxInputBytes !== undefined && size > maxInputBytes) {
+          callback(new InputTooLargeError(maxInputBytes));
+          return;
+        }
+        hash?.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipelineAsync(input, measure, fs.createWriteStream(filePath));
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      throw this.wrapTempError(error);
+    }
+
+    const pdfBuffer = this.registerFileInput({ filePath, spooled: true });
+    if (hash) {
+      this.pdfHashes.set(pdfBuffer, hash.digest('hex'));
+    }
+    return pdfBuffer;
+  }
+
+  /**
+   * Register a file input, returning the empty Buffer that keys it
+   */
+  private registerFileInput(state: FileInputState): Buffer {
+    const pdfBuffer = Buffer.alloc(0);
+    this.fileInputs.set(pdfBuffer, state);
+    return pdfBuffer;
+  }
+
+  /**
+   * Reject inputs larger than maxInputBytes
+   */
+  private checkInputSize(size: number): void {
+    const { maxInputBytes } = this.resolvedConfig;
+    if (maxInputBytes !== undefined && size > maxInputBytes) {
+      throw new InputTooLargeError(maxInputBytes, size);
+    }
+  }
+
+  /**
+   * Delete the temp file a stream input was spooled to
+   * Only the call that converted the input releases it (nested calls get the
+   * Buffer back as their input and leave it alone).
+   * @param input - Input of the public method
+   * @param pdfBuffer - Buffer inputToBuffer() returned for it
+   */
+  private releaseInput(input: PdfInput, pdfBuffer: Buffer): void {
+    const state = this.fileInputs.get(pdfBuffer);
+    if (input === pdfBuffer || !state?.spooled) {
+      return;
+    }
+
+    this.fileInputs.delete(pdfBuffer);
+    try {
+      fs.unlinkSync(state.filePath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+
+  /**
+   * Release an input once all streams reading from it have closed
+   */
+  private releaseInputAfter(input: PdfInput, pdfBuffer: Buffer, streams: Readable[]): void {
+    let open = streams.length;
+    if (open === 0) {
+      this.releaseInput(input, pdfBuffer);
+      return;
+    }
+
+    for (const stream of streams) {
+      stream.once('close', () => {
+        if (--open === 0) {
+          this.releaseInput(input, pdfBuffer);
+        }
+      });
+    }
+  }
+
+  /**
+   * Create a unique path in the system temp directory
+   * @param prefix - File name prefix (e.g., "pdf-poppler-images")
+   * @param ext - Optional extension including the dot (e.g., ".pdf")
+   */
+  private createTempPath(prefix: string, ext: string = ''): string {
+    return path.join(
+      os.tmpdir(),
+      `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}${ext}`
+    );
+  }
+
+  /**
+   * Create a directory at a temp path
+   */
+  private async makeTempDir(dir: string): Promise<void> {
+    try {
+      await fs.promises.mkdir(dir, { recursive: true });
+    } catch (error) {
+      throw this.wrapTempError(error);
+    }
+  }
+
+  /**
+   * Classify a failed file system call on the temp directory (e.g., a full
+   * disk as TempDirectoryError), passing other errors through
+   */
+  private wrapTempError(error: unknown): unknown {
+    const { code, path: errorPath } = (error ?? {}) as NodeJS.ErrnoException;
+    if (error instanceof PdfPopplerError || typeof code !== 'string') {
+      return error;
+    }
+    if (errorPath !== undefined && !errorPath.startsWith(os.tmpdir())) {
+      return error;
+    }
+    return this.wrapError(error as Error);
+  }
+
+  /**
+   * Get the file of a file input, writing a new temp file otherwise
+   * @param pdfBuffer - PDF data
+   * @param prefix - Temp file name prefix
+   * @returns The file path and a cleanup function (no-op for file inputs)
+   */
+  private async spillToTempFile(
+    pdfBuffer: Buffer,
+    prefix: string
+  ): Promise<{ tempFile: string; cleanup: () => void }> {
+    const fileInput = this.fileInputs.get(pdfBuffer);
+    if (fileInput) {
+      return { tempFile: fileInput.filePath, cleanup: () => {} };
+    }
+
+    const tempFile = this.createTempPath(prefix, '.pdf');
+    try {
+      await fs.promises.writeFile(tempFile, pdfBuffer);
+    } catch (error) {
+      await fs.promises.rm(tempFile, { force: true });
+      throw this.wrapTempError(error);
+    }
+
+    return {
+      tempFile,
+      cleanup: () => {
+        try {
+          fs.unlinkSync(tempFile);
+        } catch {
+          // Ignore cleanup errors
+        }
+      },
+    };
+  }
+
+  /**
+   * Get the input argument for a poppler command: the file of a file
+   * input, or '-' to read from stdin
+   */
+  private getInputArg(pdfBuffer: Buffer): string {
+    const fileInput = this.fileInputs.get(pdfBuffer);
+    return fileInput ? fileInput.filePath : '-';
+  }
+
+  /**
+   * Write PDF data to the process stdin (skipped for file inputs, which
+   * are passed to poppler as a file argument)
+   */
+  private pipeInput(proc: ChildProcess, pdfBuffer: Buffer): void {
+    // A stdin error (EPIPE) surfaces through the process exit code
+    proc.stdin!.on('error', () => {});
+
+    if (!this.fileInputs.has(pdfBuffer)) {
+      proc.stdin!.write(pdfBuffer);
+    }
+    proc.stdin!.end();
+  }
+
+  /**
+   * Run a poppler binary with the PDF on stdin (or as a file argument for
+   * open documents), collecting stdout
+   * @param name - Binary name without extension (e.g., "pdfinfo")
+   */
+  private runBinary(
+    name: string,
+    args: string[],
+    pdfBuffer: Buffer,
+    options: OperationOptions
+  ): Promise<Buffer> {
+    const binary = path.join(this.binaryPath, this.getBinaryName(name));
+    return this.runProcess(name, binary, args, this.execOptions, pdfBuffer, options);
+  }
+
+  /**
+   * Spawn a command, write the PDF to its stdin and collect stdout
+   * @param name - Binary name used in error messages
+   */
+  private runProcess(
+    name: string,
+    command: string,
+    args: string[],
+    execOptions: SpawnOptions,
+    pdfBuffer: Buffer,
+    options: OperationOptions
+  ): Promise<Buffer> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(this.createAbortError(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const startTime = Date.now();
+      const proc = this.spawnProcess(command, args, execOptions, ['pipe', 'pipe', 'pipe']);
+      const unbindAbort = this.bindAbort(proc, signal);
+      let timedOut = false;
+      const unbindTimeout = this.bindTimeout(proc, () => {
+        timedOut = true;
+      });
+
+      const { maxBuffer } = this.resolvedConfig.execOptions;
+      const chunks: Buffer[] = [];
+      let stdoutBytes = 0;
+      let stderrBytes = 0;
+      let stderr = '';
+      let outputLimitExceeded = false;
+
+      // stdout carries rendered pages and documents, so only stderr is limited
+      proc.stdout.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        stdoutBytes += chunk.length;
+      });
+
+      proc.stderr.on('data', (data: Buffer) => {
+        if (outputLimitExceeded) return;
+        stderr += data.toString();
+        stderrBytes += data.length;
+        if (stderrBytes > maxBuffer) {
+          outputLimitExceeded = true;
+          this.killProcess(proc);
+        }
+      });
+
+      proc.on('error', (error: Error) => {
+        unbindAbort();
+        unbindTimeout();
+        const run: ProcessRun = { binary: name, args, exitCode: null, signal: null, startTime, stdoutBytes };
+        reject(this.wrapError(error, stderr, run));
+      });
+
+      proc.on('close', (code: number | null, exitSignal: NodeJS.Signals | null) => {
+        unbindAbort();
+        unbindTimeout();
+        if (signal?.aborted) {
+          reject(this.createAbortError(signal));
+        } else if (code !== 0 || outputLimitExceeded) {
+          const run: ProcessRun = {
+            binary: name,
+            args,
+            exitCode: code,
+            signal: exitSignal,
+            startTime,
+            stdoutBytes,
+            timedOut,
+            outputLimitExceeded,
+          };
+          reject(this.wrapError(new Error(`${name} exited with code ${code}`), stderr, run));
+        } else {
+          try {
+            this.reportDiagnostics(stderr, args, options);
+          } catch (error) {
+            return reject(error);
+          }
+          resolve(Buffer.concat(chunks));
+        }
+      });
+
+      this.pipeInput(proc, pdfBuffer);
+    });
+  }
+
+  /**
+   * Run a poppler binary that takes file arguments, collecting its output
+   * @param name - Binary name without extension (e.g., "pdfimages")
+   */
+  private execBinary(
+    name: string,
+    args: string[],
+    options: OperationOptions
+  ): Promise<{ stdout: string; stderr: string }> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(this.createAbortError(signal));
+    }
+
+    const binary = path.join(this.binaryPath, this.getBinaryName(name));
+
+    return new Promise((resolve, reject) => {
+      const startTime = Date.now();
+      const proc = execFile(binary, args, this.execOptions, (error, stdout, stderr) => {
+        unbindAbort();
+        if (signal?.aborted) {
+          return reject(this.createAbortError(signal));
+        }
+        if (error) {
+          const outputLimitExceeded = error.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER';
+          const run: ProcessRun = {
+            binary: name,
+            args,
+            exitCode: typeof error.code === 'number' ? error.code : proc.exitCode,
+            signal: (error.signal as NodeJS.Signals | undefined) ?? proc.signalCode,
+            startTime,
+            stdoutBytes: Buffer.byteLength(stdout),
+            timedOut: Boolean(error.killed) && !outputLimitExceeded,
+            outputLimitExceeded,
+          };
+          // execFile messages include the command line, passwords and all;
+          // only spawn failures (string codes such as ENOENT) keep theirs
+          const spawnFailed = typeof error.code === 'string' && !outputLimitExceeded;
+          const cause = spawnFailed ? error : new Error(`${name} exited with code ${run.exitCode}`);
+          return reject(this.wrapError(cause, stderr as string, run));
+        }
+        try {
+          this.reportDiagnostics(stderr as string, args, options);
+        } catch (error) {
+          return reject(error);
+        }
+        resolve({ stdout: stdout as string, stderr: stderr as string });
+      });
+      const unbindAbort = this.bindAbort(proc, signal);
+    });
+  }
+
+  /**
+   * Spawn a poppler process
+   * execOptions.timeout is left to bindTimeout: spawn() marks processes it
+   * kills for the timeout like any other killed process.
+   */
+  private spawnProcess(command: string, args: string[], options: SpawnOptions, stdio: StdioOptions): ChildProcess {
+    const { timeout, ...spawnOptions } = options;
+    return spawn(command, args, { ...spawnOptions, stdio });
+  }
+
+  /**
+   * Kill a process once it runs longer than execOptions.timeout
+   * @param onTimeout - Called before the process is killed
+   * @returns Function that clears the timer
+   */
+  private bindTimeout(proc: ChildProcess, onTimeout: () => void): () => void {
+    const { timeout } = this.resolvedConfig.execOptions;
+    if (!timeout) {
+      return () => {};
+    }
+
+    const timer = setTimeout(() => {
+      onTimeout();
+      this.killProcess(proc);
+    }, timeout);
+    return () => clearTimeout(timer);
+  }
+
+  /**
+   * Kill a process when the signal aborts
+   * @returns Function that removes the abort listener
+   */
+  private bindAbort(proc: ChildProcess, signal?: AbortSignal): () => void {
+    if (!signal) {
+      return () => {};
+    }
+
+    const onAbort = () => this.killProcess(proc);
+
+    if (signal.aborted) {
+      onAbort();
+      return () => {};
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  /**
+   * Kill a process if it is still running
+   * Process group leaders (xvfb-run wrappers) are killed with their whole group.
+   */
+  private killProcess(proc: ChildProcess): void {
+    if (proc.exitCode !== null || proc.signalCode !== null) {
+      return;
+    }
+
+    if (proc.pid !== undefined && process.platform !== 'win32') {
+      try {
+        process.kill(-proc.pid, 'SIGTERM');
+        return;
+      } catch {
+        // Not a process group leader
+      }
+    }
+
+    proc.kill();
+  }
+
+  /**
+   * Throw AbortError if the signal has been aborted
+   */
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.createAbortError(signal);
+    }
+  }
+
+  /**
+   * Wait for a promise, rejecting with AbortError as soon as the signal aborts
+   */
+  private raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+    if (signal.aborted) {
+      return Promise.reject(this.createAbortError(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(this.createAbortError(signal));
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Create the error an aborted operation rejects with
+   */
+  private createAbortError(signal: AbortSignal): AbortError {
+    return new AbortError('Operation aborted', signal.reason);
+  }
+
+  /**
+   * Build -upw/-opw arguments from password options
+   */
+  private buildPasswordArgs(options: PasswordOptions): string[] {
+    const args: string[] = [];
+    if (options.password) {
+      args.push('-upw', options.password);
+    }
+    if (options.ownerPassword) {
+      args.push('-opw', options.ownerPassword);
+    }
+    return args;
+  }
+
+  /**
+   * Ask the password provider for a password until pdfinfo can open the PDF
+   * Passwords the provider supplied are remembered for the buffer, so open
+   * documents only ask once. Without a provider the options are returned as is.
+   * @param method - Public method name passed to the provider
+   * @returns The options with a working password
+   */
+  private async unlock<T extends InputOptions>(pdfBuffer: Buffer, options: T, method: string): Promise<T> {
+    const provider = options.passwordProvider ?? this.resolvedConfig.passwordProvider;
+    if (!provider) {
+      return options;
+    }
+
+    const remembered = this.unlockedPasswords.get(pdfBuffer);
+    if (remembered && options.password === undefined && options.ownerPassword === undefined) {
+      options = { ...options, ...remembered };
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.loadInfo(pdfBuffer, options);
+        return options;
+      } catch (error) {
+        if (!(error instanceof EncryptedPdfError) || attempt > MAX_PASSWORD_ATTEMPTS) {
+          throw error;
+        }
+
+        const password = await provider({
+          method,
+          attempt,
+          reason: error instanceof IncorrectPasswordError ? 'incorrect' : 'missing',
+          signal: options.signal,
+        });
+        this.throwIfAborted(options.signal);
+        if (password === undefined) {
+          throw error;
+        }
+
+        options = { ...options, password };
+        this.unlockedPasswords.set(pdfBuffer, { password });
+      }
+    }
+  }
+
+  /**
+   * Create a managed stream from a child process that properly cleans up
+   * This prevents Jest from hanging due to open handles on Windows
+   * The stream ends once the process exits successfully; other exits destroy
+   * it with the classified error.
+   * @param name - Binary name used in error messages
+   * @param args - Arguments of the process
+   * @param signal - Destroys the stream with AbortError (killing the process) when aborted
+   */
+  private createManagedStream(
+    proc: ChildProcess,
+    name: string,
+    args: string[],
+    signal?: AbortSignal
+  ): PassThrough {
+    const passThrough = new PassThrough();
+    const startTime = Date.now();
+    let cleanedUp = false;
+    let stdoutBytes = 0;
+    let stderr = '';
+    let timedOut = false;
+    const unbindTimeout = this.bindTimeout(proc, () => {
+      timedOut = true;
+    });
+
+    // Ended on close, after the exit code is known
+    proc.stdout!.pipe(passThrough, { end: false });
+    proc.stdout!.on('data', (chunk: Buffer) => {
+      stdoutBytes += chunk.length;
+    });
+    proc.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    // Clean up the child process - prevent multiple calls
+    const cleanup = () => {
+      if (cleanedUp) return;
+      cleanedUp = true;
+      unbindTimeout();
+
+      // Unpipe to break the connection
+      proc.stdout?.unpipe(passThrough);
+
+      // Destroy all stdio streams
+      if (proc.stdout && !proc.stdout.destroyed) {
+        proc.stdout.destroy();
+      }
+      if (proc.stderr && !proc.stderr.destroyed) {
+        proc.stderr.destroy();
       }
-      if (options.lastPage !== undefined) {
-        args.push('-l', String(options.lastPage));
+      if (proc.stdin && !proc.stdin.destroyed) {
+        proc.stdin.destroy();
       }
-    }
 
-    // Password
-    if (options.password) {
-      args.push('-upw', options.password);
-    }
+      // Kill the process if it's still running
+      this.killProcess(proc);
+    };
 
-    // No frames
-    if (options.noFrames) {
-      args.push('-noframes');
+    // Clean up when stream is consumed
+    passThrough.on('close', cleanup);
+    passThrough.on('end', cleanup);
+    passThrough.on('error', cleanup);
+
+    proc.on('close', (code: number | null, exitSignal: NodeJS.Signals | null) => {
+      cleanup();
+      if (passThrough.destroyed || signal?.aborted) {
+        return;
+      }
+      if (code !== 0) {
+        const run: ProcessRun = {
+          binary: name,
+          args,
+          exitCode: code,
+          signal: exitSignal,
+          startTime,
+          stdoutBytes,
+          timedOut,
+        };
+        passThrough.destroy(this.wrapError(new Error(`${name} exited with code ${code}`), stderr, run));
+      } else {
+        passThrough.end();
+      }
+    });
+
+    proc.on('error', (err: Error) => {
+      cleanup();
+      if (!passThrough.destroyed) {
+        const run: ProcessRun = { binary: name, args, exitCode: null, signal: null, startTime, stdoutBytes };
+        passThrough.destroy(this.wrapError(err, stderr, run));
+      }
+    });
+
+    if (signal) {
+      const onAbort = () => {
+        if (!passThrough.destroyed) {
+          passThrough.destroy(this.createAbortError(signal));
+        }
+      };
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+        passThrough.on('close', () => signal.removeEventListener('abort', onAbort));
+      }
     }
 
-    // Complex HTML
-    if (options.complex) {
-      args.push('-c');
+    return passThrough;
+  }
+
+  /**
+   * Stream a temp file from disk
+   * @param filePath - File to stream
+   * @param cleanup - Called once the stream has closed (after end, error or destroy)
+   * @param signal - Abort signal destroying the stream with an AbortError
+   */
+  private createFileStream(filePath: string, cleanup: () => void, signal?: AbortSignal): Readable {
+    const stream = fs.createReadStream(filePath);
+    stream.once('close', cleanup);
+
+    if (signal) {
+      const onAbort = () => {
+        if (!stream.destroyed) {
+          stream.destroy(this.createAbortError(signal));
+        }
+      };
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+        stream.once('close', () => signal.removeEventListener('abort', onAbort));
+      }
     }
 
-    // Single page
-    if (options.singlePage) {
-      args.push('-s');
+    return stream;
+  }
+
+  /**
+   * Check whether any page selection option is set
+   */
+  private hasPageSelection(options: PageSelectionOptions): boolean {
+    return this.getPageSelection(options) !== undefined;
+  }
+
+  /**
+   * Combine the page selection options into one selection
+   * `pages` takes precedence over `page`, which takes precedence over firstPage/lastPage
+   */
+  private getPageSelection(options: PageSelectionOptions): PageSelection | undefined {
+    const { pages, page, firstPage, lastPage } = options;
+
+    const isEmpty =
+      pages === undefined ||
+      pages === null ||
+      (Array.isArray(pages) && pages.length === 0) ||
+      (typeof pages === 'string' && pages.trim() === '');
+    if (!isEmpty) {
+      return pages;
     }
 
-    // Ignore images
-    if (options.ignoreImages) {
-      args.push('-i');
+    if (page !== undefined && page !== null) {
+      return page;
     }
 
-    // Zoom
-    if (options.zoom !== undefined) {
-      args.push('-zoom', String(options.zoom));
+    if (firstPage !== undefined || lastPage !== undefined) {
+      return { first: firstPage ?? 1, last: lastPage ?? -1 };
     }
 
-    return args;
+    return undefined;
   }
 
   /**
-   * Verify digital signatures in PDF
-   * @param input - PDF as Buffer, Uint8Array, or Readable stream
-   * @returns SignatureInfo with signed status and signature details
-   * @throws BinaryNotFoundError if pdfsig is not available
+   * Resolve and validate the selected pages against the document page count
    */
-  async verifySignatures(input: PdfInput): Promise<SignatureInfo> {
-    const pdfBuffer = await this.inputToBuffer(input);
-    const binary = path.join(this.binaryPath, this.getBinaryName('pdfsig'));
+  private async resolvePages(pdfBuffer: Buffer, options: PageSelectionOptions & InputOptions): Promise<number[]> {
+    // Get page count
+    const pdfInfo = await this.loadInfo(pdfBuffer, options);
+    const pageCount = parseInt(pdfInfo.pages, 10);
+    const selection = this.getPageSelection(options);
 
-    // Check if pdfsig binary exists
-    if (!fs.existsSync(binary)) {
-      throw new BinaryNotFoundError('pdfsig');
+    // page, firstPage and lastPage are absolute page numbers; only `pages` counts from the end
+    if (selection !== options.pages) {
+      for (const page of [options.page, options.firstPage, options.lastPage]) {
+        if (page !== undefined && page !== null && page < 1) {
+          throw new PageOutOfRangeError(page, pageCount);
+        }
+      }
     }
 
-    // pdfsig supports stdin with '-'
-    return new Promise((resolve, reject) => {
-      const proc = spawn(binary, ['-'], {
-        ...this.execOptions,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+    return resolvePageSelection(selection, pageCount);
+  }
 
-      let stdout = '';
-      let stderr = '';
+  /**
+   * Group pages into runs of consecutive ascending pages, keeping their order
+   * @param key - Optional grouping key; a run only holds pages with the same key
+   */
+  private groupPageRuns(pages: number[], key?: (page: number) => string): Array<[number, number]> {
+    const runs: Array<[number, number]> = [];
+    for (const page of pages) {
+      const last = runs[runs.length - 1];
+      if (last && page === last[1] + 1 && (!key || key(page) === key(last[1]))) {
+        last[1] = page;
+      } else {
+        runs.push([page, page]);
+      }
+    }
+    return runs;
+  }
 
-      proc.stdout.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
+  /**
+   * Resolve the page selection for tools that take a single -f/-l range
+   * @param method - Method name for the error message
+   * @returns The selected range, or null when no pages are selected
+   */
+  private async resolvePageRun(
+    pdfBuffer: Buffer,
+    options: PageSelectionOptions & InputOptions,
+    method: string
+  ): Promise<[number, number] | null> {
+    if (!this.hasPageSelection(options)) {
+      return null;
+    }
 
-      proc.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+    const runs = this.groupPageRuns(await this.resolvePages(pdfBuffer, options));
+    if (runs.length !== 1) {
+      throw new PdfPopplerError(`${method} requires a single ascending page range`);
+    }
+    return runs[0];
+  }
 
-      proc.on('error', (error: Error) => {
-        reject(this.wrapError(error, stderr));
-      });
+  /**
+   * Resolve the output format from convert options
+   */
+  private getConvertFormat(options: ConvertOptions): OutputFormat {
+    return FORMATS.includes(options.format as OutputFormat)
+      ? (options.format as OutputFormat)
+      : 'png';
+  }
 
-      proc.on('close', (code: number) => {
-        if (code !== 0) {
-          reject(this.wrapError(new Error(`pdfsig exited with code ${code}`), stderr));
-        } else {
-          resolve(this.parseSignatures(stdout));
-        }
-      });
+  /**
+   * Resolve the renderer for convert options (raw formats need pdftoppm)
+   */
+  private getRenderer(options: ConvertOptions): Renderer {
+    // pdftocairo only writes RGB images
+    if (SPLASH_ONLY_FORMATS.includes(this.getConvertFormat(options)) || options.color === 'cmyk') {
+      return 'splash';
+    }
 
-      proc.stdin.write(pdfBuffer);
-      proc.stdin.end();
-    });
+    return this.validateRenderer(options.renderer ?? this.resolvedConfig.renderer);
   }
 
   /**
-   * Parse pdfsig output
+   * Build pdftocairo or pdftoppm arguments shared by single-page and batch rendering
+   * (format and rendering options, without page range or input/output)
+   * @param size - Output size in pixels for `fit` (from getFitSizes())
    */
-  private parseSignatures(stdout: string): SignatureInfo {
-    const lines = stdout.trim().split(/\r?\n/);
-    const signatures: SignatureDetails[] = [];
+  private buildConvertArgs(options: ConvertOptions, size?: FitSize): string[] {
+    const format = this.getConvertFormat(options);
+    const splash = this.getRenderer(options) === 'splash';
+
+    if (splash && !SPLASH_FORMAT_ARGS[format]) {
+      throw new PdfPopplerError(
+        `The splash renderer only produces raster output (${BATCH_FORMATS.join(', ')}), not ${format}`
+      );
+    }
 
-    // Check if document is signed
-    const hasNoSignatures = lines.some(line =>
-      line.toLowerCase().includes('does not contain any signatures') ||
-      line.toLowerCase().includes('no signatures')
-    );
+    const args: string[] = splash ? [...SPLASH_FORMAT_ARGS[format]] : [`-${format}`];
 
-    if (hasNoSignatures) {
-      return { signed: false, signatures: [] };
+    // Formats that support scaling/resolution
+    const scalableFormats = BATCH_FORMATS;
+
+    if (options.region) {
+      // Regions need a fixed resolution to map points to pixels, so scale is
+      // ignored (vector output is measured in points)
+      let dpi = 72;
+      if (scalableFormats.includes(format)) {
+        dpi = options.dpi ?? REGION_DEFAULT_DPI;
+        args.push('-r', String(dpi));
+      }
+      args.push(...this.buildRegionArgs(options.region, dpi));
+    } else if (options.dpi !== undefined && scalableFormats.includes(format)) {
+      // DPI takes precedence over scale
+      args.push('-r', String(options.dpi));
+    } else if (size && scalableFormats.includes(format)) {
+      // Per-page size computed from the page geometry
+      args.push('-scale-to-x', String(size.width), '-scale-to-y', String(size.height));
+    } else if (options.scale !== null && options.scale !== undefined && scalableFormats.includes(format)) {
+      args.push('-scale-to', String(parseInt(String(options.scale))));
+    } else if (options.scale === undefined && options.dpi === undefined && scalableFormats.includes(format)) {
+      // Default scale for raster formats
+      args.push('-scale-to', '1024');
     }
 
-    // Parse signature information
-    // pdfsig output format varies, but typically includes:
-    // - Signature #N
-    // - Signer name, certificate info, time, etc.
-    let currentSig: Partial<SignatureDetails> | null = null;
-
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    // JPEG quality
+    if (format === 'jpeg' && options.quality !== undefined) {
+      args.push('-jpegopt', `quality=${options.quality}`);
+    }
 
-      // New signature block
-      if (lowerLine.includes('signature #') || lowerLine.match(/^signature \d+/)) {
-        if (currentSig) {
-          signatures.push({
-            valid: currentSig.valid ?? false,
-            trusted: currentSig.trusted ?? false,
-            ...currentSig,
-          });
-        }
-        currentSig = { valid: false, trusted: false };
+    // TIFF compression (CCITT G4 only encodes 1-bit images)
+    if (format === 'tiff' && options.tiffCompression !== undefined) {
+      const compression = TIFF_COMPRESSION_NAMES[options.tiffCompression];
+      if (!compression) {
+        throw new PdfPopplerError(
+          `Invalid TIFF compression: ${options.tiffCompression}. Valid options: ${Object.keys(TIFF_COMPRESSION_NAMES).join(', ')}`
+        );
       }
+      args.push('-tiffcompression', compression);
+    }
 
-      if (currentSig) {
-        // Parse signature details
-        if (lowerLine.includes('signer') && line.includes(':')) {
-          currentSig.signerName = line.split(':').slice(1).join(':').trim();
-        }
-        if (lowerLine.includes('certificate') && line.includes(':')) {
-          currentSig.signerCertificate = line.split(':').slice(1).join(':').trim();
-        }
-        if (lowerLine.includes('time') && line.includes(':')) {
-          currentSig.signTime = line.split(':').slice(1).join(':').trim();
-        }
-        if (lowerLine.includes('hash algorithm') && line.includes(':')) {
-          currentSig.hashAlgorithm = line.split(':').slice(1).join(':').trim();
-        }
-        if (lowerLine.includes('signature is valid')) {
-          currentSig.valid = true;
-        }
-        if (lowerLine.includes('certificate is trusted')) {
-          currentSig.trusted = true;
-        }
-      }
+    // Color mode
+    args.push(...this.buildColorArgs(options, format));
+
+    // Password options
+    args.push(...this.buildPasswordArgs(options));
+
+    // Transparency (PNG only, pdftocairo only)
+    if (options.transparent && format === 'png' && !splash) {
+      args.push('-transp');
     }
 
-    // Add last signature if exists
-    if (currentSig) {
-      signatures.push({
-        valid: currentSig.valid ?? false,
-        trusted: currentSig.trusted ?? false,
-        ...currentSig,
-      });
+    // Antialias
+    if (splash) {
+      args.push(...this.buildSplashArgs(options));
+    } else if (options.antialias) {
+      args.push('-antialias', options.antialias);
     }
 
-    return {
-      signed: signatures.length > 0,
-      signatures,
-    };
+    // Crop box
+    if (options.cropBox) {
+      args.push('-cropbox');
+    }
+
+    return args;
   }
 
   /**
-   * Parse pdfdetach -list output
-   * Output format:
-   * 1 File attachments
-   * 1: name.txt
-   * 2: file.pdf
+   * Build color mode arguments (shared by pdftocairo and pdftoppm)
    */
-  private parseAttachments(stdout: string): Attachment[] {
-    const lines = stdout.trim().split(/\r?\n/);
-    const attachments: Attachment[] = [];
+  private buildColorArgs(options: ConvertOptions, format: OutputFormat): string[] {
+    const color = options.color ?? 'rgb';
+    if (!COLOR_MODES.includes(color)) {
+      throw new PdfPopplerError(`Invalid color mode: ${color}. Valid modes: ${COLOR_MODES.join(', ')}`);
+    }
 
-    // Skip header line(s)
-    for (const line of lines) {
-      // Match lines like "1: filename.txt" or "  1: filename.txt"
-      const match = line.match(/^\s*(\d+):\s+(.+)$/);
-      if (match) {
-        attachments.push({
-          index: parseInt(match[1], 10),
-          name: match[2].trim(),
-          size: 0, // pdfdetach -list doesn't show size
-        });
+    if (color !== 'rgb' && !BATCH_FORMATS.includes(format)) {
+      throw new PdfPopplerError(`Color mode '${color}' requires raster output, not ${format}`);
+    }
+
+    if (color === 'cmyk') {
+      if (format !== 'jpeg') {
+        throw new PdfPopplerError(`Color mode 'cmyk' is only supported for jpeg output, not ${format}`);
       }
+      return ['-jpegcmyk'];
     }
 
-    return attachments;
+    // CCITT G4 only encodes 1-bit images; PBM and PGM already imply their mode
+    if (color === 'mono' || (format === 'tiff' && options.tiffCompression === 'g4')) {
+      return format === 'pbm' ? [] : ['-mono'];
+    }
+    if (color === 'gray') {
+      return format === 'pgm' ? [] : ['-gray'];
+    }
+    return [];
   }
 
   /**
-   * Build pdftotext command arguments from options
+   * Resolve thresholded mono rendering, or null when poppler renders the output directly
    */
-  private buildTextArgs(options: TextOptions): string[] {
-    const args: string[] = [];
+  private getThresholdRendering(options: ConvertOptions): ThresholdRendering | null {
+    if (options.color !== 'mono' || options.threshold === undefined) {
+      return null;
+    }
 
-    // Page range
-    if (options.page !== undefined) {
-      args.push('-f', String(options.page));
-      args.push('-l', String(options.page));
-    } else {
-      if (options.firstPage !== undefined) {
-        args.push('-f', String(options.firstPage));
-      }
-      if (options.lastPage !== undefined) {
-        args.push('-l', String(options.lastPage));
-      }
+    const { threshold } = options;
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 255) {
+      throw new PdfPopplerError(`Invalid threshold: ${threshold} (must be between 0 and 255)`);
     }
 
-    // Layout options
-    if (options.layout) {
-      args.push('-layout');
+    const format = this.getConvertFormat(options) as MonochromeFormat;
+    if (!THRESHOLD_FORMATS.includes(format)) {
+      throw new PdfPopplerError(
+        `Thresholded mono output is only supported for ${THRESHOLD_FORMATS.join(', ')}, not ${format}`
+      );
     }
-    if (options.raw) {
-      args.push('-raw');
+    if (format === 'tiff' && (options.tiffCompression ?? 'none') !== 'none') {
+      throw new PdfPopplerError('Thresholded mono TIFF output is written uncompressed');
     }
 
-    // Password
-    if (options.password) {
-      args.push('-upw', options.password);
-    }
+    return {
+      options: {
+        ...options,
+        format: 'pgm',
+        color: 'gray',
+        threshold: undefined,
+        tiffCompression: undefined,
+      },
+      encode: data => encodeMonochrome(data, threshold, format),
+    };
+  }
+
+  /**
+   * Build pdftoppm rasterizer arguments
+   */
+  private buildSplashArgs(options: ConvertOptions): string[] {
+    const args: string[] = [];
 
-    // Encoding
-    if (options.encoding) {
-      args.push('-enc', options.encoding);
+    // Font antialiasing follows the antialias option
+    if (options.antialias) {
+      args.push('-aa', options.antialias === 'none' ? 'no' : 'yes');
     }
 
-    // End of line
-    if (options.eol) {
-      args.push('-eol', options.eol);
+    // Vector antialiasing (defaults to the antialias option)
+    const aaVector = options.aaVector ?? (options.antialias ? options.antialias !== 'none' : undefined);
+    if (aaVector !== undefined) {
+      args.push('-aaVector', aaVector ? 'yes' : 'no');
     }
 
-    // Other options
-    if (options.noDiag) {
-      args.push('-nodiag');
+    if (options.thinLineMode) {
+      if (!['none', 'solid', 'shape'].includes(options.thinLineMode)) {
+        throw new PdfPopplerError(
+          `Invalid thinLineMode: ${options.thinLineMode}. Valid modes: none, solid, shape`
+        );
+      }
+      args.push('-thinlinemode', options.thinLineMode);
     }
-    if (options.noPageBreaks) {
-      args.push('-nopgbrk');
+
+    if (options.freetype !== undefined) {
+      args.push('-freetype', options.freetype ? 'yes' : 'no');
     }
 
     return args;
   }
 
-  // ===================
-  // Utility Methods
-  // ===================
-
   /**
-   * Get the resolved binary path
+   * Build pdftocairo -x/-y/-W/-H crop arguments for a region
+   * @param dpi - Output resolution, used to convert points to pixels
    */
-  getPath(): string {
-    return this.binaryPath;
-  }
+  private buildRegionArgs(region: PageRegion, dpi: number): string[] {
+    const { x, y, width, height } = region;
+    const unit = region.unit ?? 'pt';
 
-  /**
-   * Get current exec options
-   */
-  getExecOptions(): ExecFileOptions {
-    return { ...this.execOptions };
-  }
+    if (
+      ![x, y, width, height].every(Number.isFinite) ||
+      x < 0 || y < 0 || width <= 0 || height <= 0 ||
+      (unit !== 'pt' && unit !== 'px')
+    ) {
+      throw new PdfPopplerError(`Invalid region: ${JSON.stringify(region)}`);
+    }
 
-  /**
-   * Check if running in Lambda environment
-   */
-  isLambdaEnvironment(): boolean {
-    return this.resolvedConfig.isLambda;
+    // Round outwards so the whole area is included
+    const factor = unit === 'pt' ? dpi / 72 : 1;
+    const left = Math.floor(x * factor);
+    const top = Math.floor(y * factor);
+    const right = Math.ceil((x + width) * factor);
+    const bottom = Math.ceil((y + height) * factor);
+
+    return [
+      '-x', String(left),
+      '-y', String(top),
+      '-W', String(right - left),
+      '-H', String(bottom - top),
+    ];
   }
 
   /**
-   * Check if using bundled xvfb
+   * Convert a textLayout() bounding box into a region in points
    */
-  hasBundledXvfb(): boolean {
-    return (
-      this.binaryPath.includes('-xvfb') ||
-      this.binaryPath.includes('poppler-xvfb')
-    );
+  private toPageRegion(region: PageRegion | BoundingBox): PageRegion {
+    if (region && 'xMin' in region) {
+      return {
+        x: region.xMin,
+        y: region.yMin,
+        width: region.xMax - region.xMin,
+        height: region.yMax - region.yMin,
+        unit: 'pt',
+      };
+    }
+    return region as PageRegion;
   }
 
   /**
-   * Get detected poppler version
+   * Build pdftocairo arguments for rendering one page to stdout
    */
-  getVersion(): string | null {
-    const match = this.binaryPath.match(/poppler-(\d+\.\d+)/);
-    return match ? match[1] : null;
+  private buildSinglePageArgs(
+    pdfBuffer: Buffer,
+    page: number,
+    options: ConvertOptions,
+    size?: FitSize
+  ): string[] {
+    const args = this.buildConvertArgs(options, size);
+    args.unshift('-singlefile');
+    args.push('-f', String(page));
+    args.push('-l', String(page));
+    args.push(this.getInputArg(pdfBuffer)); // input file or stdin
+    if (this.getRenderer(options) === 'cairo') {
+      args.push('-'); // stdout output (pdftoppm writes to stdout without an output root)
+    }
+    return args;
   }
 
   /**
-   * Get available versions for current platform
+   * Convert a single page to buffer
    */
-  getAvailableVersions(): VersionInfo[] {
-    const resolver = new BinaryResolver(this.resolvedConfig);
-    return resolver.discoverVersions();
-  }
+  private async convertSinglePageToBuffer(
+    pdfBuffer: Buffer,
+    page: number,
+    options: ConvertOptions,
+    size?: FitSize
+  ): Promise<Buffer> {
+    const threshold = this.getThresholdRendering(options);
+    if (threshold) {
+      return threshold.encode(await this.convertSinglePageToBuffer(pdfBuffer, page, threshold.options, size));
+    }
 
-  /**
-   * Get the resolved configuration
-   */
-  getConfig(): Readonly<ResolvedConfig> {
-    return { ...this.resolvedConfig };
-  }
+    const args = this.buildSinglePageArgs(pdfBuffer, page, options, size);
+    const { command, execArgs, execOptions } = this.prepareConvertExecution(args, options);
+    const name = RENDERER_BINARIES[this.getRenderer(options)];
 
-  // ===================
-  // Private Methods
-  // ===================
+    return this.withCache(
+      await this.getPageCacheKey(pdfBuffer, page, options, size),
+      () => this.runProcess(name, command, execArgs, execOptions, pdfBuffer, options)
+    );
+  }
 
   /**
-   * Resolve user config with smart defaults
+   * Convert a single page to stream
    */
-  private resolveConfig(userConfig: PdfPopplerConfig): ResolvedConfig {
-    const envConfig = this.loadEnvironmentConfig();
-    const platform = (userConfig.platform ??
-      envConfig.platform ??
-      os.platform()) as Platform;
-    const isLambda =
-      userConfig.isLambda ?? envConfig.isLambda ?? this.envDetector.isLambda();
-    const isCI = userConfig.isCI ?? envConfig.isCI ?? this.envDetector.isCI();
+  private convertSinglePageToStream(
+    pdfBuffer: Buffer,
+    page: number,
+    options: ConvertOptions,
+    size?: FitSize
+  ): Readable {
+    // Thresholding needs the whole gray image, so it can't be streamed through
+    if (this.getThresholdRendering(options)) {
+      const passThrough = new PassThrough();
+      this.convertSinglePageToBuffer(pdfBuffer, page, options, size).then(
+        data => passThrough.end(data),
+        error => passThrough.destroy(error)
+      );
+      return passThrough;
+    }
 
-    // In headless environments, default to xvfb unless explicitly disabled
-    const isHeadless = isLambda || isCI;
-    const preferXvfb =
-      userConfig.preferXvfb ??
-      envConfig.preferXvfb ??
-      (isHeadless ? process.env.POPPLER_PREFER_XVFB !== 'false' : false);
+    const args = this.buildSinglePageArgs(pdfBuffer, page, options, size);
+    const { command, execArgs, execOptions } = this.prepareConvertExecution(args, options);
 
-    return {
-      platform,
-      isLambda,
-      isCI,
-      preferXvfb,
-      binaryPath: userConfig.binaryPath ?? envConfig.binaryPath,
-      binaryPackage: userConfig.binaryPackage ?? envConfig.binaryPackage,
-      version: userConfig.version ?? envConfig.version,
-      execOptions: {
-        encoding: 'utf8' as BufferEncoding,
-        maxBuffer:
-          userConfig.execOptions?.maxBuffer ??
-          envConfig.execOptions?.maxBuffer ??
-          5000 * 1024,
-        timeout: userConfig.execOptions?.timeout ?? envConfig.execOptions?.timeout,
-        env: { ...envConfig.execOptions?.env, ...userConfig.execOptions?.env },
-      },
-    };
-  }
+    const proc = this.spawnProcess(command, execArgs, execOptions, ['pipe', 'pipe', 'pipe']);
 
-  /**
-   * Load configuration from environment variables
-   */
-  private loadEnvironmentConfig(): Partial<PdfPopplerConfig> {
-    return {
-      binaryPath: process.env.POPPLER_BINARY_PATH,
-      binaryPackage: process.env.POPPLER_BINARY_PACKAGE,
-      version: process.env.POPPLER_VERSION,
-      preferXvfb:
-        process.env.POPPLER_PREFER_XVFB !== undefined
-          ? process.env.POPPLER_PREFER_XVFB === 'true'
-          : undefined,
-    };
+    this.pipeInput(proc, pdfBuffer);
+
+    return this.createManagedStream(proc, RENDERER_BINARIES[this.getRenderer(options)], args, options.signal);
   }
 
   /**
-   * Build exec options for child_process
+   * Run a task for each item through a bounded worker queue
+   * When a task fails or the consumer stops early, the tasks still running
+   * are aborted through their signal and awaited, so no process outlives the call.
+   * @param items - Items to process
+   * @param concurrency - Maximum number of tasks in flight
+   * @param task - Task to run for each item, cancelled through the given signal
+   * @param ordered - Yield results in item order (true) or as they complete (false)
+   * @param signal - Signal of the operation, aborting all tasks
    */
-  private buildExecOptions(): ExecFileOptions {
-    const options: ExecFileOptions = {
-      encoding: this.resolvedConfig.execOptions.encoding,
-      maxBuffer: this.resolvedConfig.execOptions.maxBuffer,
-      timeout: this.resolvedConfig.execOptions.timeout,
-      shell: false,
-    };
-
-    // Platform-specific environment setup
-    if (this.resolvedConfig.platform === 'linux') {
-      options.env = this.buildLinuxEnv();
+  private async *runConcurrent<T, R>(
+    items: T[],
+    concurrency: number,
+    task: (item: T, signal: AbortSignal) => Promise<R>,
+    ordered: boolean,
+    signal?: AbortSignal
+  ): AsyncGenerator<R, void, unknown> {
+    type Settled = { index: number; value?: R; error?: unknown; failed: boolean };
+
+    const inFlight = new Map<number, Promise<Settled>>();
+    let nextIndex = 0;
+    let nextYield = 0;
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
     } else {
-      options.env = { ...process.env };
+      signal?.addEventListener('abort', onAbort, { once: true });
     }
 
-    // Merge user-provided env
-    if (this.resolvedConfig.execOptions.env) {
-      options.env = { ...options.env, ...this.resolvedConfig.execOptions.env };
-    }
-
-    return options;
-  }
-
-  /**
-   * Build environment variables for Linux
-   */
-  private buildLinuxEnv(): NodeJS.ProcessEnv {
-    const env: NodeJS.ProcessEnv = { ...process.env };
+    // Settled promises never reject, so tasks waiting their turn in ordered
+    // mode can't trigger unhandled rejections
+    const fill = () => {
+      while (inFlight.size < concurrency && nextIndex < items.length) {
+        const index = nextIndex++;
+        inFlight.set(
+          index,
+          task(items[index], controller.signal).then(
+            value => ({ index, value, failed: false }),
+            error => ({ index, error, failed: true })
+          )
+        );
+      }
+    };
 
-    // Set up library path
-    const popplerDir = this.binaryPath.replace(/[\/\\]bin$/, '');
-    const libPath = path.join(popplerDir, 'lib');
+    try {
+      fill();
 
-    if (fs.existsSync(libPath)) {
-      env.LD_LIBRARY_PATH = env.LD_LIBRARY_PATH
-        ? `${libPath}:${env.LD_LIBRARY_PATH}`
-        : libPath;
-    }
+      while (inFlight.size > 0) {
+        const settled = ordered
+          ? await inFlight.get(nextYield++)!
+          : await Promise.race(inFlight.values());
 
-    // Add fontconfig environment variables if available (from fonts package)
-    if (this.fontconfigEnv) {
-      Object.assign(env, this.fontconfigEnv);
-    }
+        inFlight.delete(settled.index);
 
-    // Lambda-specific settings
-    if (this.resolvedConfig.isLambda) {
-      env.DISPLAY = ':99';
-      env.XAUTHORITY = '/tmp/.Xauth';
+        if (settled.failed) {
+          throw settled.error;
+        }
 
-      // Add Lambda Layer lib paths if they exist
-      if (fs.existsSync('/opt/lib')) {
-        env.LD_LIBRARY_PATH = `/opt/lib:${env.LD_LIBRARY_PATH || ''}`;
+        // Start the next task before handing the result to the consumer
+        fill();
+        yield settled.value as R;
       }
-
-      // Set XKB config path for bundled keyboard config
-      const xkbPath = path.join(popplerDir, 'share', 'xkb');
-      if (fs.existsSync(xkbPath)) {
-        env.XKB_CONFIG_ROOT = xkbPath;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (inFlight.size > 0) {
+        controller.abort();
+        await Promise.all(inFlight.values());
       }
     }
-
-    return env;
   }
 
   /**
-   * Get platform-specific binary name
+   * Check whether batch rendering applies (only raster formats produce one file per page)
    */
-  private getBinaryName(base: string): string {
-    return this.resolvedConfig.platform === 'win32' ? `${base}.exe` : base;
+  private useBatchRendering(options: ConvertOptions): boolean {
+    const format = this.getConvertFormat(options);
+    return options.batch === true && BATCH_FORMATS.includes(format);
   }
 
   /**
-   * Make binaries executable on Unix platforms
+   * Check whether `fit` applies (region, dpi and vector formats ignore it)
    */
-  private ensureExecutable(): void {
-    if (this.resolvedConfig.platform === 'win32') return;
-
-    try {
-      const popplerDir = this.binaryPath.replace(/[\/\\]bin$/, '');
-      // Use spawn to avoid blocking, but we don't wait for it
-      const { spawn } = require('child_process');
-      spawn('chmod', ['-R', '755', popplerDir], { stdio: 'ignore' });
-    } catch {
-      // Ignore errors - permission may already be set or not needed
-    }
+  private useFit(options: ConvertOptions): boolean {
+    const format = this.getConvertFormat(options);
+    return (
+      options.fit !== undefined &&
+      !options.region &&
+      options.dpi === undefined &&
+      BATCH_FORMATS.includes(format)
+    );
   }
 
   /**
-   * Convert any input type to Buffer
+   * Compute the output size of each page for the `fit` option
+   * pdftocairo scales the media box (or crop box with `cropBox`) after rotation.
    */
-  private async inputToBuffer(input: PdfInput): Promise<Buffer> {
-    // Validate input
-    if (input === null || input === undefined) {
-      throw new InvalidPdfError('Input cannot be null or undefined');
-    }
-
-    // Handle file path (string)
-    if (typeof input === 'string') {
-      if (!fs.existsSync(input)) {
-        throw new InvalidPdfError(`File not found: ${input}`);
-      }
-      return fs.readFileSync(input);
+  private async getFitSizes(
+    pdfBuffer: Buffer,
+    pages: number[],
+    options: ConvertOptions
+  ): Promise<Map<number, FitSize>> {
+    const { width, height } = options.fit;
+    if (!(width > 0) || !(height > 0) || !Number.isFinite(width) || !Number.isFinite(height)) {
+      throw new PdfPopplerError(`Invalid fit size: ${JSON.stringify(options.fit)}`);
     }
 
-    if (Buffer.isBuffer(input)) {
-      return input;
-    }
-    if (input instanceof Uint8Array) {
-      return Buffer.from(input);
+    const sizes = new Map<number, FitSize>();
+    for (const [page, pageSize] of await this.getPageSizes(pdfBuffer, pages, options)) {
+      sizes.set(page, this.fitInside(pageSize, width, height));
     }
+    return sizes;
+  }
 
-    // Check if it's a readable stream (has .on method)
-    if (typeof (input as Readable).on !== 'function') {
-      throw new InvalidPdfError('Input must be a file path, Buffer, Uint8Array, or Readable stream');
+  /**
+   * Get the rendered size of each page in points
+   * pdftocairo and pdftoppm render the media box (or crop box with `cropBox`) after rotation.
+   */
+  private async getPageSizes(
+    pdfBuffer: Buffer,
+    pages: number[],
+    options: InputOptions & { cropBox?: boolean }
+  ): Promise<Map<number, FitSize>> {
+    const sizes = new Map<number, FitSize>();
+    for (const info of await this.readPageInfo(pdfBuffer, pages, options)) {
+      const box = options.cropBox ? info.cropBox : info.mediaBox;
+      const width = Math.abs(box.x2 - box.x1);
+      const height = Math.abs(box.y2 - box.y1);
+      sizes.set(info.page, info.rotation % 180 !== 0 ? { width: height, height: width } : { width, height });
     }
-
-    // Readable stream - collect chunks
-    return new Promise((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      input.on('data', (chunk: Buffer | string) => {
-        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-      });
-      input.on('end', () => resolve(Buffer.concat(chunks)));
-      input.on('error', reject);
-    });
+    return sizes;
   }
 
   /**
-   * Create a managed stream from a child process that properly cleans up
-   * This prevents Jest from hanging due to open handles on Windows
+   * Scale a page size to fit inside a box, keeping its aspect ratio
    */
-  private createManagedStream(proc: ChildProcess): PassThrough {
-    const passThrough = new PassThrough();
-    let cleanedUp = false;
+  private fitInside(pageSize: FitSize, width: number, height: number): FitSize {
+    const factor = Math.min(width / pageSize.width, height / pageSize.height);
+    return {
+      width: Math.max(1, Math.round(pageSize.width * factor)),
+      height: Math.max(1, Math.round(pageSize.height * factor)),
+    };
+  }
 
-    proc.stdout!.pipe(passThrough);
+  /**
+   * Render pages to TIFF and assemble them into one multi-page TIFF file
+   * Each page is written out as soon as it has been rendered.
+   */
+  private async *generateMultiPageTiff(
+    pdfBuffer: Buffer,
+    pages: number[],
+    options: ConvertOptions
+  ): AsyncGenerator<Buffer, void, unknown> {
+    yield createTiffHeader();
+
+    let offset = TIFF_HEADER_SIZE;
+    let index = 0;
+
+    // Batch rendering writes files, which avoids TIFF output to a pipe
+    for await (const { data } of this.convertPagesBatch(pdfBuffer, pages, options)) {
+      const block = writeTiffPage(readTiffImage(data), offset, index, pages.length);
+      offset += block.length;
+      index++;
+      yield block;
+    }
+  }
 
-    // Clean up the child process - prevent multiple calls
-    const cleanup = () => {
-      if (cleanedUp) return;
-      cleanedUp = true;
+  /**
+   * Render pages with one pdftocairo process per contiguous page run
+   * Pages are yielded as soon as pdftocairo has finished writing them
+   * @param pages - Pages to render in order, or null for all pages
+   * @param sizes - Output sizes for `fit`; runs are split where the size changes
+   */
+  private async *convertPagesBatch(
+    pdfBuffer: Buffer,
+    pages: number[] | null,
+    options: ConvertOptions,
+    sizes: Map<number, FitSize> | null = null
+  ): AsyncGenerator<PageResult, void, unknown> {
+    // Group pages into contiguous runs, keeping the requested order
+    const runs: Array<[number, number] | null> = pages === null
+      ? [null]
+      : this.groupPageRuns(pages, sizes ? page => JSON.stringify(sizes.get(page)) : undefined);
 
-      // Unpipe to break the connection
-      proc.stdout?.unpipe(passThrough);
+    const outputDir = this.createTempPath('pdf-poppler-render');
+    await this.makeTempDir(outputDir);
 
-      // Destroy all stdio streams
-      if (proc.stdout && !proc.stdout.destroyed) {
-        proc.stdout.destroy();
-      }
-      if (proc.stderr && !proc.stderr.destroyed) {
-        proc.stderr.destroy();
+    try {
+      for (const run of runs) {
+        yield* this.renderPageRun(pdfBuffer, run, outputDir, options, run && sizes?.get(run[0]));
       }
-      if (proc.stdin && !proc.stdin.destroyed) {
-        proc.stdin.destroy();
+    } finally {
+      try {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
       }
+    }
+  }
 
-      // Kill the process if it's still running
-      if (!proc.killed && proc.exitCode === null) {
-        proc.kill();
-      }
-    };
+  /**
+   * Batch render pages, taking cached pages from the render cache
+   * Missing pages are rendered in one batch and cached as they finish.
+   */
+  private async *convertPagesBatchCached(
+    pdfBuffer: Buffer,
+    pages: number[],
+    options: ConvertOptions,
+    sizes: Map<number, FitSize> | null
+  ): AsyncGenerator<PageResult, void, unknown> {
+    const { cache } = this.resolvedConfig;
+    const keys = await Promise.all(
+      pages.map(page => this.getPageCacheKey(pdfBuffer, page, options, sizes?.get(page)))
+    );
+    const cached = await Promise.all(keys.map(key => cache.get(key)));
 
-    // Clean up when stream is consumed
-    passThrough.on('close', cleanup);
-    passThrough.on('end', cleanup);
-    passThrough.on('error', cleanup);
+    const missing = pages.filter((_, i) => cached[i] === undefined);
+    const rendered = missing.length > 0 ? this.convertPagesBatch(pdfBuffer, missing, options, sizes) : null;
 
-    // Also clean up when process exits (fallback)
-    proc.on('close', cleanup);
-    proc.on('exit', cleanup);
+    try {
+      for (let i = 0; i < pages.length; i++) {
+        if (cached[i] !== undefined) {
+          yield { page: pages[i], data: cached[i] };
+          continue;
+        }
 
-    proc.on('error', (err: Error) => {
-      cleanup();
-      if (!passThrough.destroyed) {
-        passThrough.destroy(err);
+        // Missing pages are rendered in the same order
+        const { value, done } = await rendered.next();
+        if (done || !value) {
+          throw new PdfPopplerError(`No output produced for page ${pages[i]}`);
+        }
+        await cache.set(keys[i], value.data);
+        yield value;
       }
-    });
-
-    return passThrough;
+    } finally {
+      // Stop rendering and remove the output directory if the consumer stops early
+      await rendered?.return(undefined);
+    }
   }
 
   /**
-   * Convert a single page to buffer
+   * Run an operation through the render cache
+   * @param key - Cache key from getCacheKey(), or null when caching is disabled
+   * @param run - Produces the value on a cache miss
    */
-  private async convertSinglePageToBuffer(
-    pdfBuffer: Buffer,
-    page: number,
-    options: ConvertOptions
-  ): Promise<Buffer> {
-    const format = FORMATS.includes(options.format as OutputFormat)
-      ? (options.format as OutputFormat)
-      : 'png';
+  private async withCache(key: string | null, run: () => Promise<Buffer>): Promise<Buffer> {
+    if (key === null) {
+      return run();
+    }
 
-    const args: string[] = [`-${format}`, '-singlefile'];
-    args.push('-f', String(page));
-    args.push('-l', String(page));
+    const { cache } = this.resolvedConfig;
+    const cached = await cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
 
-    // Formats that support scaling/resolution
-    const scalableFormats: OutputFormat[] = ['png', 'jpeg', 'tiff'];
+    const value = await run();
+    await cache.set(key, value);
+    return value;
+  }
 
-    // DPI takes precedence over scale
-    if (options.dpi !== undefined && scalableFormats.includes(format)) {
-      args.push('-r', String(options.dpi));
-    } else if (options.scale !== null && options.scale !== undefined && scalableFormats.includes(format)) {
-      args.push('-scale-to', String(parseInt(String(options.scale))));
-    } else if (options.scale === undefined && options.dpi === undefined && scalableFormats.includes(format)) {
-      // Default scale for raster formats
-      args.push('-scale-to', '1024');
+  /**
+   * Build the render cache key of a poppler run, or null when caching is disabled
+   * The arguments are the normalized options; the input argument is left out
+   * since open documents pass a temp file path instead of stdin.
+   */
+  private async getCacheKey(pdfBuffer: Buffer, binary: string, args: string[]): Promise<string | null> {
+    if (!this.resolvedConfig.cache) {
+      return null;
     }
 
-    // JPEG quality
-    if (format === 'jpeg' && options.quality !== undefined) {
-      args.push('-jpegopt', `quality=${options.quality}`);
+    let pdfHash = this.pdfHashes.get(pdfBuffer);
+    if (!pdfHash) {
+      const fileInput = this.fileInputs.get(pdfBuffer);
+      pdfHash = fileInput
+        ? await this.hashFile(fileInput.filePath)
+        : createHash('sha256').update(pdfBuffer).digest('hex');
+      this.pdfHashes.set(pdfBuffer, pdfHash);
     }
 
-    // Password options
-    if (options.password) {
-      args.push('-upw', options.password);
-    }
-    if (options.ownerPassword) {
-      args.push('-opw', options.ownerPassword);
-    }
+    const inputArg = this.getInputArg(pdfBuffer);
+    const normalizedArgs = args.map(arg => (arg === inputArg ? '<input>' : arg));
 
-    // Transparency (PNG only)
-    if (options.transparent && format === 'png') {
-      args.push('-transp');
+    return createHash('sha256')
+      .update(JSON.stringify([pdfHash, this.getVersion() ?? this.binaryPath, binary, normalizedArgs]))
+      .digest('hex');
+  }
+
+  /**
+   * SHA-256 of a file, streamed in chunks
+   * Remembered by path, so a file is only read again once its size or mtime
+   * changes.
+   */
+  private async hashFile(filePath: string): Promise<string> {
+    const { size, mtimeMs } = await fs.promises.stat(filePath);
+    const known = this.fileHashes.get(filePath);
+    if (known && known.size === size && known.mtimeMs === mtimeMs) {
+      return known.hash;
     }
 
-    // Antialias
-    if (options.antialias) {
-      args.push('-antialias', options.antialias);
+    const hash = createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath, { highWaterMark: HASH_CHUNK_SIZE })) {
+      hash.update(chunk);
     }
+    const digest = hash.digest('hex');
 
-    // Crop box
-    if (options.cropBox) {
-      args.push('-cropbox');
+    this.fileHashes.delete(filePath);
+    this.fileHashes.set(filePath, { size, mtimeMs, hash: digest });
+    if (this.fileHashes.size > MAX_FILE_HASHES) {
+      this.fileHashes.delete(this.fileHashes.keys().next().value);
     }
+    return digest;
+  }
 
-    args.push('-'); // stdin input
-    args.push('-'); // stdout output
+  /**
+   * Build the render cache key of one rendered page
+   * Shared by single-page and batch rendering, which produce the same output.
+   */
+  private async getPageCacheKey(
+    pdfBuffer: Buffer,
+    page: number,
+    options: ConvertOptions,
+    size?: FitSize
+  ): Promise<string | null> {
+    if (!this.resolvedConfig.cache) {
+      return null;
+    }
 
-    const { command, execArgs, execOptions } = this.prepareConvertExecution(args);
+    const args = [...this.buildConvertArgs(options, size), '-f', String(page), '-l', String(page)];
+    // Thresholding happens after rendering, so it isn't part of the arguments
+    if (this.getThresholdRendering(options)) {
+      args.push('-threshold', String(options.threshold));
+    }
 
-    return new Promise((resolve, reject) => {
-      const proc = spawn(command, execArgs, {
-        ...execOptions,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+    return this.getCacheKey(pdfBuffer, RENDERER_BINARIES[this.getRenderer(options)], args);
+  }
 
-      const chunks: Buffer[] = [];
-      let stderr = '';
+  /**
+   * Render one page range into outputDir, watching the directory for finished pages
+   */
+  private async *renderPageRun(
+    pdfBuffer: Buffer,
+    run: [number, number] | null,
+    outputDir: string,
+    options: ConvertOptions,
+    size?: FitSize
+  ): AsyncGenerator<PageResult, void, unknown> {
+    const threshold = this.getThresholdRendering(options);
+    if (threshold) {
+      for await (const result of this.renderPageRun(pdfBuffer, run, outputDir, threshold.options, size)) {
+        yield { ...result, data: threshold.encode(result.data) };
+      }
+      return;
+    }
 
-      proc.stdout.on('data', (chunk: Buffer) => {
-        chunks.push(chunk);
-      });
+    const format = this.getConvertFormat(options);
+    const ext = BATCH_EXTENSIONS[format];
+    const filePattern = new RegExp(`^page-(\\d+)\\.${ext}$`);
 
-      proc.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+    const args = this.buildConvertArgs(options, size);
+    if (run) {
+      args.push('-f', String(run[0]));
+      args.push('-l', String(run[1]));
+    }
+    args.push(this.getInputArg(pdfBuffer)); // input file or stdin
+    args.push(path.join(outputDir, 'page')); // output root (page-<n>.<ext>)
+
+    const { command, execArgs, execOptions } = this.prepareConvertExecution(args, options);
+    const name = RENDERER_BINARIES[this.getRenderer(options)];
+
+    const startTime = Date.now();
+    const proc = this.spawnProcess(command, execArgs, execOptions, ['pipe', 'ignore', 'pipe']);
+    const unbindAbort = this.bindAbort(proc, options.signal);
+    let timedOut = false;
+    const unbindTimeout = this.bindTimeout(proc, () => {
+      timedOut = true;
+    });
 
-      proc.on('error', (error: Error) => {
-        reject(this.wrapError(error, stderr));
-      });
+    const { maxBuffer } = this.resolvedConfig.execOptions;
+    let stderr = '';
+    let stderrBytes = 0;
+    let outputLimitExceeded = false;
+    let exited = false;
+    let exitError: PdfPopplerError | null = null;
+    let wake: (() => void) | null = null;
+
+    const notify = () => {
+      if (wake) {
+        const resolve = wake;
+        wake = null;
+        resolve();
+      }
+    };
 
-      proc.on('close', (code: number) => {
-        if (code !== 0) {
-          reject(this.wrapError(new Error(`pdftocairo exited with code ${code}`), stderr));
-        } else {
-          resolve(Buffer.concat(chunks));
-        }
-      });
+    proc.stderr.on('data', (data: Buffer) => {
+      if (outputLimitExceeded) return;
+      stderr += data.toString();
+      stderrBytes += data.length;
+      if (stderrBytes > maxBuffer) {
+        outputLimitExceeded = true;
+        this.killProcess(proc);
+      }
+    });
 
-      proc.stdin.write(pdfBuffer);
-      proc.stdin.end();
+    proc.on('error', (error: Error) => {
+      exited = true;
+      unbindTimeout();
+      const run: ProcessRun = { binary: name, args, exitCode: null, signal: null, startTime, stdoutBytes: 0 };
+      exitError = this.wrapError(error, stderr, run);
+      notify();
     });
-  }
 
-  /**
-   * Convert a single page to stream
-   */
-  private convertSinglePageToStream(
-    pdfBuffer: Buffer,
-    page: number,
-    options: ConvertOptions
-  ): Readable {
-    const format = FORMATS.includes(options.format as OutputFormat)
-      ? (options.format as OutputFormat)
-      : 'png';
+    proc.on('close', (code: number | null, exitSignal: NodeJS.Signals | null) => {
+      exited = true;
+      unbindTimeout();
+      if (options.signal?.aborted) {
+        exitError = this.createAbortError(options.signal);
+      } else if ((code !== 0 || outputLimitExceeded) && !exitError) {
+        const run: ProcessRun = {
+          binary: name,
+          args,
+          exitCode: code,
+          signal: exitSignal,
+          startTime,
+          // Pages are written to files, so stdout stays empty
+          stdoutBytes: 0,
+          timedOut,
+          outputLimitExceeded,
+        };
+        exitError = this.wrapError(new Error(`${name} exited with code ${code}`), stderr, run);
+      }
+      notify();
+    });
 
-    const args: string[] = [`-${format}`, '-singlefile'];
-    args.push('-f', String(page));
-    args.push('-l', String(page));
+    const watcher = fs.watch(outputDir, notify);
 
-    // Formats that support scaling/resolution
-    const scalableFormats: OutputFormat[] = ['png', 'jpeg', 'tiff'];
+    this.pipeInput(proc, pdfBuffer);
 
-    // DPI takes precedence over scale
-    if (options.dpi !== undefined && scalableFormats.includes(format)) {
-      args.push('-r', String(options.dpi));
-    } else if (options.scale !== null && options.scale !== undefined && scalableFormats.includes(format)) {
-      args.push('-scale-to', String(parseInt(String(options.scale))));
-    } else if (options.scale === undefined && options.dpi === undefined && scalableFormats.includes(format)) {
-      // Default scale for raster formats
-      args.push('-scale-to', '1024');
-    }
+    try {
+      while (true) {
+        const done = exited;
 
-    // JPEG quality
-    if (format === 'jpeg' && options.quality !== undefined) {
-      args.push('-jpegopt', `quality=${options.quality}`);
-    }
+        // A failed, aborted or timed out run may have left its last page
+        // partly written, so its files are not yielded
+        if (done && exitError) {
+          throw exitError;
+        }
 
-    // Password options
-    if (options.password) {
-      args.push('-upw', options.password);
-    }
-    if (options.ownerPassword) {
-      args.push('-opw', options.ownerPassword);
-    }
+        const written = fs
+          .readdirSync(outputDir)
+          .map(name => ({ name, match: name.match(filePattern) }))
+          .filter(file => file.match !== null)
+          .map(file => ({ name: file.name, page: parseInt(file.match![1], 10) }))
+          .sort((a, b) => a.page - b.page);
+
+        // pdftocairo renders sequentially, so a page is complete once a later
+        // page has appeared or the process has exited successfully
+        const ready = done ? written : written.slice(0, -1);
+
+        for (const file of ready) {
+          const filePath = path.join(outputDir, file.name);
+          const data = fs.readFileSync(filePath);
+          fs.unlinkSync(filePath);
+          yield { page: file.page, data };
+        }
 
-    // Transparency (PNG only)
-    if (options.transparent && format === 'png') {
-      args.push('-transp');
-    }
+        if (done) {
+          this.reportDiagnostics(stderr, args, options);
+          return;
+        }
 
-    // Antialias
-    if (options.antialias) {
-      args.push('-antialias', options.antialias);
+        if (ready.length === 0 && !exited) {
+          // Fall back to polling in case a watch event is missed
+          await new Promise<void>(resolve => {
+            wake = resolve;
+            setTimeout(notify, BATCH_POLL_INTERVAL_MS);
+          });
+        }
+      }
+    } finally {
+      unbindAbort();
+      watcher.close();
+      this.killProcess(proc);
     }
+  }
 
-    // Crop box
-    if (options.cropBox) {
-      args.push('-cropbox');
+  /**
+   * Render pages in batch mode, exposing each page as a stream that receives
+   * its data once the page has been written
+   */
+  private convertPagesBatchToStreams(
+    pdfBuffer: Buffer,
+    pages: number[],
+    options: ConvertOptions,
+    sizes: Map<number, FitSize> | null = null
+  ): PageStreamResult[] {
+    const streams = new Map<number, PassThrough>();
+    for (const page of pages) {
+      streams.set(page, new PassThrough());
     }
 
-    args.push('-'); // stdin input
-    args.push('-'); // stdout output
-
-    const { command, execArgs, execOptions } = this.prepareConvertExecution(args);
-
-    const proc = spawn(command, execArgs, {
-      ...execOptions,
-      stdio: ['pipe', 'pipe', 'pipe'],
+    (async () => {
+      for await (const { page, data } of this.convertPagesBatch(pdfBuffer, pages, options, sizes)) {
+        streams.get(page)?.end(data);
+        streams.delete(page);
+      }
+    })().catch((error: Error) => {
+      for (const stream of streams.values()) {
+        stream.destroy(error);
+      }
     });
 
-    proc.stdin.write(pdfBuffer);
-    proc.stdin.end();
-
-    return this.createManagedStream(proc);
+    return pages.map(page => ({ page, stream: streams.get(page) as Readable }));
   }
 
   /**
@@ -1724,6 +4540,69 @@ export class PdfPoppler {
     return info as PdfInfo;
   }
 
+  /**
+   * Parse per-page pdfinfo -box output
+   * pdfinfo -f/-l -box prints lines like:
+   *   Page    1 size: 612 x 792 pts (letter)
+   *   Page    1 rot:  90
+   *   Page    1 MediaBox:     0.00     0.00   612.00   792.00
+   */
+  private parsePageInfo(stdout: string): Map<number, PageInfo> {
+    const pages = new Map<number, PageInfo>();
+    const linePattern = /^Page\s+(\d+)\s+(size|rot|MediaBox|CropBox|BleedBox|TrimBox|ArtBox):\s*(.*)$/;
+    const emptyBox = (): PageBox => ({ x1: 0, y1: 0, x2: 0, y2: 0 });
+
+    for (const line of stdout.split(/\r?\n/)) {
+      const match = line.match(linePattern);
+      if (!match) continue;
+
+      const page = parseInt(match[1], 10);
+      const value = match[3].trim();
+      let info = pages.get(page);
+      if (!info) {
+        info = {
+          page,
+          width: 0,
+          height: 0,
+          rotation: 0,
+          mediaBox: emptyBox(),
+          cropBox: emptyBox(),
+          bleedBox: emptyBox(),
+          trimBox: emptyBox(),
+          artBox: emptyBox(),
+        };
+        pages.set(page, info);
+      }
+
+      switch (match[2]) {
+        case 'size': {
+          const dims = value.split('x');
+          info.width = parseFloat(dims[0]);
+          info.height = parseFloat(dims[1]);
+          break;
+        }
+        case 'rot':
+          info.rotation = ((parseInt(value, 10) % 360) + 360) % 360;
+          break;
+        default: {
+          const [x1, y1, x2, y2] = value.split(/\s+/).map(parseFloat);
+          const key = `${match[2].charAt(0).toLowerCase()}${match[2].substring(1)}` as
+            'mediaBox' | 'cropBox' | 'bleedBox' | 'trimBox' | 'artBox';
+          info[key] = { x1, y1, x2, y2 };
+        }
+      }
+    }
+
+    // pdfinfo reports the unrotated crop box size
+    for (const info of pages.values()) {
+      if (info.rotation % 180 !== 0) {
+        [info.width, info.height] = [info.height, info.width];
+      }
+    }
+
+    return pages;
+  }
+
   /**
    * Parse pdfimages -list output
    */
@@ -1746,6 +4625,106 @@ export class PdfPoppler {
     return data;
   }
 
+  /**
+   * Parse pdftotext -bbox-layout output
+   * pdftotext -bbox-layout output format (XHTML):
+   * <doc>
+   *   <page width="612.000000" height="792.000000">
+   *     <flow>
+   *       <block xMin="72.0" yMin="71.3" xMax="290.4" yMax="85.2">
+   *         <line xMin="72.0" yMin="71.3" xMax="290.4" yMax="85.2">
+   *           <word xMin="72.0" yMin="71.3" xMax="105.6" yMax="85.2">Hello</word>
+   * @param firstPage - Page number of the first <page> element
+   */
+  private parseTextLayout(xhtml: string, firstPage: number): TextLayoutPage[] {
+    const pages: TextLayoutPage[] = [];
+    let page: TextLayoutPage | null = null;
+    let flow: TextFlow | null = null;
+    let block: TextBlock | null = null;
+    let line: TextLine | null = null;
+
+    // Opening tags, plus the text content of <word> elements
+    const tagPattern = /<(page|flow|block|line|word)\b([^>]*)>(?:([^<]*)<\/word>)?/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(xhtml)) !== null) {
+      const [, tag, attributes, wordText] = match;
+
+      switch (tag) {
+        case 'page':
+          page = {
+            page: firstPage + pages.length,
+            width: this.parseNumberAttribute(attributes, 'width'),
+            height: this.parseNumberAttribute(attributes, 'height'),
+            flows: [],
+          };
+          pages.push(page);
+          flow = block = line = null;
+          break;
+        case 'flow':
+          flow = { blocks: [] };
+          page?.flows.push(flow);
+          block = line = null;
+          break;
+        case 'block':
+          block = { ...this.parseBoundingBox(attributes), lines: [] };
+          flow?.blocks.push(block);
+          line = null;
+          break;
+        case 'line':
+          line = { ...this.parseBoundingBox(attributes), words: [] };
+          block?.lines.push(line);
+          break;
+        case 'word':
+          line?.words.push({
+            ...this.parseBoundingBox(attributes),
+            text: this.decodeXmlEntities(wordText ?? ''),
+          });
+          break;
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Read xMin/yMin/xMax/yMax attributes
+   */
+  private parseBoundingBox(attributes: string): BoundingBox {
+    return {
+      xMin: this.parseNumberAttribute(attributes, 'xMin'),
+      yMin: this.parseNumberAttribute(attributes, 'yMin'),
+      xMax: this.parseNumberAttribute(attributes, 'xMax'),
+      yMax: this.parseNumberAttribute(attributes, 'yMax'),
+    };
+  }
+
+  /**
+   * Read a numeric attribute from an XML attribute string (0 if missing)
+   */
+  private parseNumberAttribute(attributes: string, name: string): number {
+    const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+    return match ? parseFloat(match[1]) : 0;
+  }
+
+  /**
+   * Decode the XML entities pdftotext uses when escaping text
+   */
+  private decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_entity, code: string) => {
+      switch (code) {
+        case 'amp': return '&';
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'quot': return '"';
+        case 'apos': return "'";
+      }
+      return code[1] === 'x'
+        ? String.fromCodePoint(parseInt(code.substring(2), 16))
+        : String.fromCodePoint(parseInt(code.substring(1), 10));
+    });
+  }
+
   /**
    * Parse pdffonts output
    * pdffonts output format:
@@ -1808,16 +4787,22 @@ export class PdfPoppler {
   }
 
   /**
-   * Prepare convert execution with xvfb handling
+   * Prepare convert execution for the selected renderer (with xvfb handling for pdftocairo)
    */
-  private prepareConvertExecution(args: string[]): {
+  private prepareConvertExecution(args: string[], options: ConvertOptions): {
     command: string;
     execArgs: string[];
-    execOptions: ExecFileOptions;
+    execOptions: SpawnOptions;
   } {
-    let command = path.join(this.binaryPath, this.getBinaryName('pdftocairo'));
+    const renderer = this.getRenderer(options);
+    let command = path.join(this.binaryPath, this.getBinaryName(RENDERER_BINARIES[renderer]));
     let execArgs = args;
-    let execOptions = { ...this.execOptions };
+    let execOptions: SpawnOptions = { ...this.execOptions };
+
+    // pdftoppm renders without cairo and never needs a display
+    if (renderer === 'splash') {
+      return { command, execArgs, execOptions };
+    }
 
     // Handle virtual display for headless Linux environments
     // Only use xvfb if:
@@ -1830,10 +4815,12 @@ export class PdfPoppler {
       this.resolvedConfig.platform === 'linux';
 
     if (useXvfb) {
-      const xvfbResult = this.setupXvfb(command, args, execOptions);
+      const xvfbResult = this.setupXvfb(command, args, this.execOptions);
       command = xvfbResult.command;
       execArgs = xvfbResult.args;
-      execOptions = xvfbResult.options;
+      // Run the wrapper in its own process group so killProcess() also stops
+      // Xvfb and pdftocairo
+      execOptions = { ...xvfbResult.options, detached: true };
     }
 
     return { command, execArgs, execOptions };
@@ -1936,39 +4923,98 @@ export class PdfPoppler {
 
   /**
    * Wrap error with stderr information and detect error type
+   * Errors of killed processes are classified here, everything else by the
+   * configured errorRules and then DEFAULT_ERROR_RULES.
+   * @param run - The failed process, if the error comes from one
    */
-  private wrapError(error: Error, stderr?: string): PdfPopplerError {
-    const stderrLower = (stderr || '').toLowerCase();
-    const messageLower = error.message.toLowerCase();
-    const combined = stderrLower + ' ' + messageLower;
+  private wrapError(error: Error, stderr?: string, run?: ProcessRun): PdfPopplerError {
+    const details: ProcessErrorDetails = {
+      ...(run && this.describeProcess(run)),
+      diagnostics: parseDiagnostics(stderr ?? '', run && this.getRunPage(run.args)),
+    };
 
-    // Detect encrypted/password-protected PDF
-    if (
-      combined.includes('encrypted') ||
-      combined.includes('password') ||
-      combined.includes('permission denied')
-    ) {
-      return new EncryptedPdfError('PDF is password protected', stderr);
+    // Processes killed by Node or by a signal
+    if (run?.outputLimitExceeded) {
+      return new OutputLimitExceededError(this.resolvedConfig.execOptions.maxBuffer, stderr, details);
+    }
+    if (run?.timedOut) {
+      return new ProcessTimeoutError(this.resolvedConfig.execOptions.timeout as number, stderr, details);
+    }
+    if (run?.signal) {
+      return new ProcessCrashedError(stderr, details);
     }
 
-    // Detect invalid PDF
-    if (
-      combined.includes('not a pdf') ||
-      combined.includes('invalid pdf') ||
-      combined.includes('corrupted') ||
-      combined.includes('couldn\'t open') ||
-      combined.includes('error opening') ||
-      combined.includes('syntax error') ||
-      combined.includes('command line error') ||
-      combined.includes('pdf file is damaged')
-    ) {
-      return new InvalidPdfError('Invalid or corrupted PDF file', stderr);
+    const { code, syscall, path: errorPath } = error as NodeJS.ErrnoException;
+    const context: ErrorRuleContext = {
+      binary: run?.binary,
+      exitCode: run?.exitCode,
+      errorCode: typeof code === 'string' ? code : undefined,
+      syscall,
+      path: errorPath,
+      hasPassword: Boolean(run?.args.some(arg => PASSWORD_FLAGS.includes(arg))),
+      stderr: stderr ?? '',
+      error,
+      details,
+    };
+    const classified = classifyError(context, [...this.resolvedConfig.errorRules, ...DEFAULT_ERROR_RULES]);
+    if (classified) {
+      return classified;
     }
 
     // Default to base error
     const message = stderr
       ? `${error.message}\nStderr: ${stderr}`
       : error.message;
-    return new PdfPopplerError(message, stderr);
+    return new PdfPopplerError(message, stderr, details);
+  }
+
+  /**
+   * Pass the diagnostics of a successful run to the onDiagnostic handler
+   */
+  private reportDiagnostics(stderr: string, args: string[], options: OperationOptions): void {
+    const handler = options.onDiagnostic ?? this.resolvedConfig.onDiagnostic;
+    if (!handler || !stderr) {
+      return;
+    }
+    for (const diagnostic of parseDiagnostics(stderr, this.getRunPage(args))) {
+      handler(diagnostic);
+    }
+  }
+
+  /**
+   * Page a run covers when its -f/-l range is a single page
+   */
+  private getRunPage(args: string[]): number | undefined {
+    const first = args.indexOf('-f');
+    const last = args.indexOf('-l');
+    if (first === -1 || last === -1 || args[first + 1] !== args[last + 1]) {
+      return undefined;
+    }
+    return parseInt(args[first + 1], 10);
+  }
+
+  /**
+   * Describe a failed process for its error, redacting passwords
+   */
+  private describeProcess(run: ProcessRun): ProcessErrorDetails {
+    return {
+      binary: run.binary,
+      args: run.args.map((arg, i) => (i > 0 && PASSWORD_FLAGS.includes(run.args[i - 1]) ? '***' : arg)),
+      exitCode: run.exitCode,
+      signal: run.signal,
+      durationMs: Date.now() - run.startTime,
+      stdoutBytes: run.stdoutBytes,
+    };
+  }
+
+  /**
+   * Record the public method an error surfaced from
+   * Public methods calling each other overwrite it, so the outermost call wins.
+   */
+  private tagOperation(error: unknown, operation: string): unknown {
+    if (error instanceof PdfPopplerError) {
+      error.operation = operation;
+    }
+    return error;
   }
 }
@@ -1,4 +1,4 @@
-import { PdfPopplerConfig, Platform } from './types';
+import { PdfPopplerConfig, Platform, Renderer, RenderCache, PasswordProvider, DiagnosticHandler, ErrorRule } from './types';
 
 /**
  * Builder class for PdfPoppler configuration
@@ -122,6 +122,74 @@ export class PdfPopplerConfigBuilder {
     return this;
   }
 
+  /**
+   * Set default number of pages rendered in parallel
+   * @param concurrency - Number of concurrent poppler processes per operation
+   */
+  withConcurrency(concurrency: number): this {
+    this.config.concurrency = concurrency;
+    return this;
+  }
+
+  /**
+   * Set default rasterizer for convert operations
+   * @param renderer - 'cairo' (pdftocairo) or 'splash' (pdftoppm)
+   */
+  withRenderer(renderer: Renderer): this {
+    this.config.renderer = renderer;
+    return this;
+  }
+
+  /**
+   * Set the cache for rendered pages, extracted text and metadata
+   * @param cache - e.g. new MemoryRenderCache() or new FileRenderCache({ directory })
+   */
+  withCache(cache: RenderCache): this {
+    this.config.cache = cache;
+    return this;
+  }
+
+  /**
+   * Set the largest accepted input
+   * @param bytes - Inputs larger than this are rejected with InputTooLargeError
+   */
+  withMaxInputBytes(bytes: number): this {
+    this.config.maxInputBytes = bytes;
+    return this;
+  }
+
+  /**
+   * Set the callback asked for passwords of encrypted PDFs
+   */
+  withPasswordProvider(provider: PasswordProvider): this {
+    this.config.passwordProvider = provider;
+    return this;
+  }
+
+  /**
+   * Set the callback receiving problems poppler reports while operations succeed
+   */
+  withDiagnosticHandler(handler: DiagnosticHandler): this {
+    this.config.onDiagnostic = handler;
+    return this;
+  }
+
+  /**
+   * Enable or disable rejecting inputs of other formats before running poppler
+   */
+  withInputValidation(enabled: boolean = true): this {
+    this.config.validateInput = enabled;
+    return this;
+  }
+
+  /**
+   * Add a rule turning failures into errors, tried before the built-in rules
+   */
+  withErrorRule(rule: ErrorRule): this {
+    this.config.errorRules = [...(this.config.errorRules ?? []), rule];
+    return this;
+  }
+
   /**
    * Set custom exec options
    */
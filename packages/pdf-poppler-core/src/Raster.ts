@@ -0,0 +1,241 @@
+import * as zlib from 'zlib';
+import { PdfPopplerError } from './errors';
+
+/**
+ * 8-bit image with one (gray) or three (RGB) samples per pixel
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  /** Samples per pixel: 1 (gray) or 3 (RGB) */
+  channels: number;
+  /** Pixel samples, row by row */
+  pixels: Buffer;
+}
+
+/** RGB color */
+export type Rgb = [number, number, number];
+
+/** PNG color types */
+export const PNG_GRAY = 0;
+export const PNG_RGB = 2;
+
+/** PNG file signature */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** CRC-32 lookup table used by PNG chunks */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/** Samples per pixel of binary Netpbm formats */
+const NETPBM_CHANNELS: Record<string, number> = { P5: 1, P6: 3 };
+
+/**
+ * 5x7 glyphs for page labels, one row per string ('#' = ink)
+ */
+const GLYPHS: Record<string, string[]> = {
+  '0': [' ### ', '#   #', '#  ##', '# # #', '##  #', '#   #', ' ### '],
+  '1': ['  #  ', ' ##  ', '  #  ', '  #  ', '  #  ', '  #  ', ' ### '],
+  '2': [' ### ', '#   #', '    #', '   # ', '  #  ', ' #   ', '#####'],
+  '3': ['#####', '   # ', '  #  ', '   # ', '    #', '#   #', ' ### '],
+  '4': ['   # ', '  ## ', ' # # ', '#  # ', '#####', '   # ', '   # '],
+  '5': ['#####', '#    ', '#### ', '    #', '    #', '#   #', ' ### '],
+  '6': ['  ## ', ' #   ', '#    ', '#### ', '#   #', '#   #', ' ### '],
+  '7': ['#####', '    #', '   # ', '  #  ', ' #   ', ' #   ', ' #   '],
+  '8': [' ### ', '#   #', '#   #', ' ### ', '#   #', '#   #', ' ### '],
+  '9': [' ### ', '#   #', '#   #', ' ####', '    #', '   # ', ' ##  '],
+};
+
+/** Glyph size in pixels (before scaling) */
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+
+/**
+ * Parse a binary 8-bit PGM (P5) or PPM (P6) image, as written by pdftoppm
+ * @throws PdfPopplerError if the data is not an 8-bit binary PGM/PPM image
+ */
+export function parseNetpbm(data: Buffer): RasterImage {
+  // Header: magic, width, height and maxval separated by whitespace (with optional comments)
+  const values: string[] = [];
+  let offset = 0;
+  while (values.length < 4 && offset < data.length) {
+    const char = String.fromCharCode(data[offset]);
+    if (char === '#') {
+      while (offset < data.length && data[offset] !== 0x0a) offset++;
+    } else if (/\s/.test(char)) {
+      offset++;
+    } else {
+      let token = '';
+      while (offset < data.length && !/\s/.test(String.fromCharCode(data[offset]))) {
+        token += String.fromCharCode(data[offset++]);
+      }
+      values.push(token);
+    }
+  }
+  // A single whitespace byte separates the header from the pixels
+  offset++;
+
+  const [magic, widthValue, heightValue, maxValue] = values;
+  const channels = NETPBM_CHANNELS[magic];
+  const width = parseInt(widthValue, 10);
+  const height = parseInt(heightValue, 10);
+  if (!channels || !(width > 0) || !(height > 0) || maxValue !== '255') {
+    throw new PdfPopplerError('Invalid image data: expected an 8-bit binary PGM or PPM image');
+  }
+
+  const size = width * height * channels;
+  if (offset + size > data.length) {
+    throw new PdfPopplerError('Invalid image data: truncated pixel data');
+  }
+
+  return { width, height, channels, pixels: data.subarray(offset, offset + size) };
+}
+
+/**
+ * Parse a '#rgb' or '#rrggbb' color
+ * @throws PdfPopplerError if the color is not a hex color
+ */
+export function parseColor(color: string): Rgb {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+  if (!match) {
+    throw new PdfPopplerError(`Invalid color: ${color} (expected '#rgb' or '#rrggbb')`);
+  }
+
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+}
+
+/**
+ * Create an RGB image filled with one color
+ */
+export function createImage(width: number, height: number, color: Rgb): RasterImage {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < pixels.length; i += 3) {
+    pixels[i] = color[0];
+    pixels[i + 1] = color[1];
+    pixels[i + 2] = color[2];
+  }
+  return { width, height, channels: 3, pixels };
+}
+
+/**
+ * Copy an image into an RGB image at (x, y), clipping it to the target
+ */
+export function drawImage(target: RasterImage, source: RasterImage, x: number, y: number): void {
+  for (let row = Math.max(0, -y); row < source.height && y + row < target.height; row++) {
+    for (let col = Math.max(0, -x); col < source.width && x + col < target.width; col++) {
+      const from = (row * source.width + col) * source.channels;
+      const to = ((y + row) * target.width + x + col) * 3;
+      for (let c = 0; c < 3; c++) {
+        target.pixels[to + c] = source.pixels[from + (source.channels === 3 ? c : 0)];
+      }
+    }
+  }
+}
+
+/**
+ * Measure a label drawn with drawLabel()
+ */
+export function measureLabel(text: string, scale: number): number {
+  return text.length === 0 ? 0 : (text.length * (GLYPH_WIDTH + 1) - 1) * scale;
+}
+
+/**
+ * Draw a label of digits into an RGB image with its top-left corner at (x, y)
+ * @param scale - Size of one glyph pixel
+ * @throws PdfPopplerError if the label has characters other than digits
+ */
+export function drawLabel(target: RasterImage, text: string, x: number, y: number, scale: number, color: Rgb): void {
+  Array.from(text).forEach((char, index) => {
+    const glyph = GLYPHS[char];
+    if (!glyph) {
+      throw new PdfPopplerError(`Cannot draw label character: ${char}`);
+    }
+
+    const left = x + index * (GLYPH_WIDTH + 1) * scale;
+    glyph.forEach((line, row) => {
+      Array.from(line).forEach((ink, col) => {
+        if (ink === '#') {
+          fillRect(target, left + col * scale, y + row * scale, scale, scale, color);
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Encode an 8-bit gray or RGB image as PNG
+ */
+export function encodeImagePng(image: RasterImage): Buffer {
+  const rowBytes = image.width * image.channels;
+  const rows: Buffer[] = [];
+  for (let y = 0; y < image.height; y++) {
+    rows.push(image.pixels.subarray(y * rowBytes, (y + 1) * rowBytes));
+  }
+  return encodePng(image.width, image.height, 8, image.channels === 3 ? PNG_RGB : PNG_GRAY, rows);
+}
+
+/**
+ * Encode rows of packed samples as a non-interlaced PNG
+ * @param bitDepth - Bits per sample
+ * @param colorType - PNG color type (PNG_GRAY or PNG_RGB)
+ * @param rows - One buffer per row, without the filter byte
+ */
+export function encodePng(width: number, height: number, bitDepth: number, colorType: number, rows: Buffer[]): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+
+  // Each row starts with filter type 0 (none)
+  const parts: Buffer[] = [];
+  for (const row of rows) {
+    parts.push(Buffer.from([0]), row);
+  }
+  const scanlines = Buffer.concat(parts);
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(scanlines)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Fill a rectangle of an RGB image, clipping it to the image
+ */
+function fillRect(target: RasterImage, x: number, y: number, width: number, height: number, color: Rgb): void {
+  for (let row = Math.max(0, y); row < Math.min(target.height, y + height); row++) {
+    for (let col = Math.max(0, x); col < Math.min(target.width, x + width); col++) {
+      const offset = (row * target.width + col) * 3;
+      target.pixels[offset] = color[0];
+      target.pixels[offset + 1] = color[1];
+      target.pixels[offset + 2] = color[2];
+    }
+  }
+}
+
+/**
+ * Build a PNG chunk (length, type, data, CRC)
+ */
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'latin1');
+  data.copy(chunk, 8);
+
+  let crc = 0xffffffff;
+  for (let i = 4; i < 8 + data.length; i++) {
+    crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+  }
+  chunk.writeUInt32BE((crc ^ 0xffffffff) >>> 0, 8 + data.length);
+
+  return chunk;
+}
@@ -0,0 +1,268 @@
+import { PdfPopplerError } from './errors';
+
+/** Size of the TIFF file header (byte order, magic number, first IFD offset) */
+export const TIFF_HEADER_SIZE = 8;
+
+/** Largest offset a classic (non-BigTIFF) file can address */
+const MAX_TIFF_OFFSET = 0xffffffff;
+
+/** Field types: size of one value in bytes */
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+  13: 4, // IFD
+};
+
+/** Field types: size of the units swapped when changing byte order (rationals are two LONGs) */
+const SWAP_SIZES: Record<number, number> = {
+  ...TYPE_SIZES,
+  5: 4,
+  10: 4,
+};
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+const TAG_NEW_SUBFILE_TYPE = 254;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PAGE_NUMBER = 297;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+
+/** NewSubfileType flag marking one page of a multi-page document */
+const SUBFILE_PAGE = 2;
+
+/**
+ * IFD entry with its value in little-endian byte order
+ */
+interface TiffField {
+  tag: number;
+  type: number;
+  count: number;
+  value: Buffer;
+}
+
+/**
+ * First image of a TIFF file: its tags and image data (strips or tiles)
+ */
+export interface TiffImage {
+  /** Tags other than the image data offsets and byte counts */
+  fields: TiffField[];
+
+  /** Image data segments, in order */
+  segments: Buffer[];
+
+  /** Whether the image is stored in tiles rather than strips */
+  tiled: boolean;
+}
+
+/**
+ * Create the header of a little-endian TIFF file whose first IFD follows the header
+ */
+export function createTiffHeader(): Buffer {
+  const header = Buffer.alloc(TIFF_HEADER_SIZE);
+  header.write('II', 0, 'latin1');
+  header.writeUInt16LE(42, 2);
+  header.writeUInt32LE(TIFF_HEADER_SIZE, 4);
+  return header;
+}
+
+/**
+ * Read the first image of a single-page TIFF file
+ * @param data - TIFF file (either byte order)
+ * @throws PdfPopplerError if the data is not a classic TIFF file
+ */
+export function readTiffImage(data: Buffer): TiffImage {
+  const order = data.length >= TIFF_HEADER_SIZE ? data.toString('latin1', 0, 2) : '';
+  if (order !== 'II' && order !== 'MM') {
+    throw new PdfPopplerError('Invalid TIFF data: missing byte order mark');
+  }
+
+  const littleEndian = order === 'II';
+  const readUInt16 = (offset: number) => (littleEndian ? data.readUInt16LE(offset) : data.readUInt16BE(offset));
+  const readUInt32 = (offset: number) => (littleEndian ? data.readUInt32LE(offset) : data.readUInt32BE(offset));
+
+  if (readUInt16(2) !== 42) {
+    throw new PdfPopplerError('Invalid TIFF data: only classic TIFF files are supported');
+  }
+
+  const ifdOffset = readUInt32(4);
+  if (ifdOffset + 2 > data.length) {
+    throw new PdfPopplerError('Invalid TIFF data: IFD out of bounds');
+  }
+
+  const entryCount = readUInt16(ifdOffset);
+  if (ifdOffset + 2 + entryCount * 12 + 4 > data.length) {
+    throw new PdfPopplerError('Invalid TIFF data: IFD out of bounds');
+  }
+
+  const fields: TiffField[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = readUInt16(entry);
+    const type = readUInt16(entry + 2);
+    const count = readUInt32(entry + 4);
+
+    // Skip fields of unknown types; their size can't be determined
+    const typeSize = TYPE_SIZES[type];
+    if (!typeSize) continue;
+
+    const length = typeSize * count;
+    const start = length <= 4 ? entry + 8 : readUInt32(entry + 8);
+    if (start + length > data.length) {
+      throw new PdfPopplerError(`Invalid TIFF data: value of tag ${tag} out of bounds`);
+    }
+
+    const value = Buffer.from(data.subarray(start, start + length));
+    if (!littleEndian) {
+      swapBytes(value, SWAP_SIZES[type]);
+    }
+    fields.push({ tag, type, count, value });
+  }
+
+  const tiled = fields.some(field => field.tag === TAG_TILE_OFFSETS);
+  const offsetsTag = tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS;
+  const byteCountsTag = tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS;
+
+  const offsetsField = fields.find(field => field.tag === offsetsTag);
+  const byteCountsField = fields.find(field => field.tag === byteCountsTag);
+  if (!offsetsField || !byteCountsField || offsetsField.count !== byteCountsField.count) {
+    throw new PdfPopplerError('Invalid TIFF data: missing image data offsets');
+  }
+
+  const offsets = readIntegers(offsetsField);
+  const byteCounts = readIntegers(byteCountsField);
+  const segments = offsets.map((offset, i) => {
+    if (offset + byteCounts[i] > data.length) {
+      throw new PdfPopplerError('Invalid TIFF data: image data out of bounds');
+    }
+    return data.subarray(offset, offset + byteCounts[i]);
+  });
+
+  return {
+    fields: fields.filter(field => field.tag !== offsetsTag && field.tag !== byteCountsTag),
+    segments,
+    tiled,
+  };
+}
+
+/**
+ * Serialize an image as one page of a multi-page TIFF file
+ *
+ * The returned block holds the page IFD, its out-of-line values and its image
+ * data. It must be written at `offset`; the IFD links to the next page, which
+ * is expected to start right after this block.
+ *
+ * @param image - Image read with readTiffImage()
+ * @param offset - File offset the block will be written at
+ * @param pageIndex - Page index (0-indexed)
+ * @param pageCount - Total number of pages in the file
+ * @throws PdfPopplerError if the file would exceed 4 GB
+ */
+export function writeTiffPage(image: TiffImage, offset: number, pageIndex: number, pageCount: number): Buffer {
+  const offsetsTag = image.tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS;
+  const byteCountsTag = image.tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS;
+
+  const pageNumber = Buffer.alloc(4);
+  pageNumber.writeUInt16LE(pageIndex, 0);
+  pageNumber.writeUInt16LE(pageCount, 2);
+
+  const dataOffsets = longField(offsetsTag, image.segments.map(() => 0));
+  const fields: TiffField[] = [
+    ...image.fields.filter(field => field.tag !== TAG_NEW_SUBFILE_TYPE && field.tag !== TAG_PAGE_NUMBER),
+    longField(TAG_NEW_SUBFILE_TYPE, [SUBFILE_PAGE]),
+    { tag: TAG_PAGE_NUMBER, type: TYPE_SHORT, count: 2, value: pageNumber },
+    dataOffsets,
+    longField(byteCountsTag, image.segments.map(segment => segment.length)),
+  ].sort((a, b) => a.tag - b.tag);
+
+  // Layout: IFD, out-of-line values, image data (each value word-aligned)
+  const ifdSize = 2 + fields.length * 12 + 4;
+  let cursor = offset + ifdSize;
+
+  const valueOffsets = fields.map(field => {
+    if (field.value.length <= 4) return 0;
+    cursor += cursor % 2;
+    const valueOffset = cursor;
+    cursor += field.value.length;
+    return valueOffset;
+  });
+
+  const segmentOffsets = image.segments.map(segment => {
+    cursor += cursor % 2;
+    const segmentOffset = cursor;
+    cursor += segment.length;
+    return segmentOffset;
+  });
+
+  if (cursor > MAX_TIFF_OFFSET) {
+    throw new PdfPopplerError('Multi-page TIFF exceeds the 4 GB limit of the TIFF format');
+  }
+
+  segmentOffsets.forEach((segmentOffset, i) => dataOffsets.value.writeUInt32LE(segmentOffset, i * 4));
+
+  // Pad the block so the next page starts on a word boundary
+  const block = Buffer.alloc(cursor + (cursor % 2) - offset);
+
+  block.writeUInt16LE(fields.length, 0);
+  fields.forEach((field, i) => {
+    const entry = 2 + i * 12;
+    block.writeUInt16LE(field.tag, entry);
+    block.writeUInt16LE(field.type, entry + 2);
+    block.writeUInt32LE(field.count, entry + 4);
+    if (field.value.length <= 4) {
+      field.value.copy(block, entry + 8);
+    } else {
+      block.writeUInt32LE(valueOffsets[i], entry + 8);
+      field.value.copy(block, valueOffsets[i] - offset);
+    }
+  });
+
+  const isLastPage = pageIndex === pageCount - 1;
+  block.writeUInt32LE(isLastPage ? 0 : offset + block.length, ifdSize - 4);
+
+  image.segments.forEach((segment, i) => segment.copy(block, segmentOffsets[i] - offset));
+
+  return block;
+}
+
+/**
+ * Build a LONG field
+ */
+function longField(tag: number, values: number[]): TiffField {
+  const value = Buffer.alloc(values.length * 4);
+  values.forEach((v, i) => value.writeUInt32LE(v, i * 4));
+  return { tag, type: TYPE_LONG, count: values.length, value };
+}
+
+/**
+ * Read the values of a SHORT or LONG field
+ */
+function readIntegers(field: TiffField): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < field.count; i++) {
+    values.push(field.type === TYPE_SHORT ? field.value.readUInt16LE(i * 2) : field.value.readUInt32LE(i * 4));
+  }
+  return values;
+}
+
+/**
+ * Reverse the byte order of each unit of a value in place
+ */
+function swapBytes(value: Buffer, unitSize: number): void {
+  if (unitSize <= 1) return;
+  for (let i = 0; i + unitSize <= value.length; i += unitSize) {
+    value.subarray(i, i + unitSize).reverse();
+  }
+}
@@ -0,0 +1,182 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { RenderCache, FileRenderCacheOptions } from '../types';
+import { PdfPopplerError } from '../errors';
+
+/** Default size limit (256 MB) */
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+/** Keys usable as file names */
+const KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/** Suffix of files being written */
+const TEMP_SUFFIX = '.tmp';
+
+/**
+ * Render cache storing one file per entry in a directory
+ * Reading an entry marks it as recently used; when the files exceed maxBytes,
+ * the least recently used ones are deleted. The total size is counted in
+ * memory and measured on disk on the first write and whenever the count
+ * exceeds maxBytes. Several processes can share the directory, since files
+ * are written atomically and eviction measures what all of them wrote.
+ *
+ * @example
+ * ```typescript
+ * const cache = new FileRenderCache({ directory: '/var/cache/pdf-renders', maxBytes: 1024 ** 3 });
+ * const poppler = new PdfPoppler({ cache });
+ * ```
+ */
+export class FileRenderCache implements RenderCache {
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  /** Total size of the cache files, unknown until the first write measures it */
+  private size?: number;
+
+  constructor(options: FileRenderCacheOptions) {
+    if (!options?.directory) {
+      throw new PdfPopplerError('FileRenderCache needs a directory');
+    }
+
+    this.directory = path.resolve(options.directory);
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+    if (!Number.isInteger(this.maxBytes) || this.maxBytes < 1) {
+      throw new PdfPopplerError(`Invalid maxBytes: ${this.maxBytes} (must be a positive integer)`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const filePath = this.getFilePath(key);
+    try {
+      const data = await fs.promises.readFile(filePath);
+      // The modification time tracks use for eviction
+      const now = new Date();
+      await fs.promises.utimes(filePath, now, now).catch(() => undefined);
+      return data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, value: Buffer): Promise<void> {
+    const filePath = this.getFilePath(key);
+
+    // Values larger than the whole cache would evict everything else
+    if (value.length > this.maxBytes) {
+      return;
+    }
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so readers never see a partial entry
+    const tempPath = `${filePath}.${randomBytes(6).toString('hex')}${TEMP_SUFFIX}`;
+    let replacedSize = 0;
+    try {
+      await fs.promises.writeFile(tempPath, value);
+      replacedSize = await this.getFileSize(filePath);
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    const size = this.size === undefined ? undefined : this.size + value.length - replacedSize;
+    if (size === undefined || size > this.maxBytes) {
+      await this.evict();
+    } else {
+      this.size = size;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.getFilePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Delete all cache files
+   */
+  async clear(): Promise<void> {
+    for (const entry of await this.listEntries()) {
+      await fs.promises.rm(entry.filePath, { force: true });
+    }
+    this.size = 0;
+  }
+
+  /**
+   * Measure the cache files and delete the least recently used ones until
+   * the cache fits maxBytes
+   */
+  private async evict(): Promise<void> {
+    const entries = await this.listEntries();
+    let size = entries.reduce((total, entry) => total + entry.size, 0);
+
+    if (size > this.maxBytes) {
+      entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+      for (const entry of entries) {
+        if (size <= this.maxBytes) break;
+        await fs.promises.rm(entry.filePath, { force: true });
+        size -= entry.size;
+      }
+    }
+    this.size = size;
+  }
+
+  /**
+   * Size of a file, or 0 if it doesn't exist
+   */
+  private async getFileSize(filePath: string): Promise<number> {
+    try {
+      return (await fs.promises.stat(filePath)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * List cache files with their size and last use
+   */
+  private async listEntries(): Promise<Array<{ filePath: string; size: number; mtimeMs: number }>> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: Array<{ filePath: string; size: number; mtimeMs: number }> = [];
+    for (const name of names) {
+      if (!KEY_PATTERN.test(name)) continue;
+
+      const filePath = path.join(this.directory, name);
+      try {
+        const stats = await fs.promises.stat(filePath);
+        entries.push({ filePath, size: stats.size, mtimeMs: stats.mtimeMs });
+      } catch {
+        // Deleted by another process in the meantime
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Map a key to its cache file
+   */
+  private getFilePath(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new PdfPopplerError(`Invalid cache key: ${key}`);
+    }
+    return path.join(this.directory, key);
+  }
+}
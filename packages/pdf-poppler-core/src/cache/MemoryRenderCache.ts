@@ -0,0 +1,85 @@
+import { RenderCache, MemoryRenderCacheOptions } from '../types';
+import { PdfPopplerError } from '../errors';
+
+/** Default entry limit */
+const DEFAULT_MAX_ENTRIES = 100;
+
+/** Default size limit (64 MB) */
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * In-memory render cache that evicts the least recently used entries
+ *
+ * @example
+ * ```typescript
+ * const poppler = new PdfPoppler({ cache: new MemoryRenderCache({ maxBytes: 128 * 1024 * 1024 }) });
+ * ```
+ */
+export class MemoryRenderCache implements RenderCache {
+  /** Entries in least to most recently used order */
+  private readonly entries = new Map<string, Buffer>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private size = 0;
+
+  constructor(options: MemoryRenderCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new PdfPopplerError(`Invalid maxEntries: ${this.maxEntries} (must be a positive integer)`);
+    }
+    if (!Number.isInteger(this.maxBytes) || this.maxBytes < 1) {
+      throw new PdfPopplerError(`Invalid maxBytes: ${this.maxBytes} (must be a positive integer)`);
+    }
+  }
+
+  get(key: string): Buffer | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Move to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: Buffer): void {
+    this.delete(key);
+
+    // Values larger than the whole cache would evict everything else
+    if (value.length > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, value);
+    this.size += value.length;
+
+    while (this.entries.size > this.maxEntries || this.size > this.maxBytes) {
+      this.delete(this.entries.keys().next().value);
+    }
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+    this.size = 0;
+  }
+
+  /**
+   * Remove an entry
+   */
+  private delete(key: string): void {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.size -= value.length;
+    }
+  }
+}
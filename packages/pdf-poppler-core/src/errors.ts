@@ -1,23 +1,63 @@
+import { ProcessErrorDetails, PopplerDiagnostic, DetectedType } from './types';
+
 /**
  * Base error class for all pdf-poppler-core errors
+ * Errors caused by a poppler process carry its details; arguments have
+ * password values redacted, so errors can be logged as they are.
  */
 export class PdfPopplerError extends Error {
-  constructor(message: string, public readonly stderr?: string) {
+  /** Public method the error surfaced from (e.g., 'convert') */
+  operation?: string;
+  /** Binary name without extension (e.g., 'pdftocairo') */
+  readonly binary?: string;
+  /** Arguments, with password values replaced by '***' */
+  readonly args?: string[];
+  /** Exit code, or null when the process was killed by a signal */
+  readonly exitCode?: number | null;
+  /** Signal that killed the process */
+  readonly signal?: NodeJS.Signals | null;
+  /** Time from spawning the process until it exited */
+  readonly durationMs?: number;
+  /** Bytes the process wrote to stdout */
+  readonly stdoutBytes?: number;
+  /** Problems the process reported on stderr */
+  readonly diagnostics?: PopplerDiagnostic[];
+
+  constructor(message: string, public readonly stderr?: string, details: ProcessErrorDetails = {}) {
     super(message);
     this.name = 'PdfPopplerError';
+    for (const [key, value] of Object.entries(details)) {
+      if (value !== undefined) {
+        (this as Record<string, unknown>)[key] = value;
+      }
+    }
     // Maintains proper stack trace for where error was thrown (only available on V8)
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, this.constructor);
     }
   }
+
+  /**
+   * Plain object for structured logging: name, message, stderr, the process
+   * details and the fields of subclasses
+   */
+  toJSON(): Record<string, unknown> {
+    return { name: this.name, message: this.message, ...(this as Record<string, unknown>) };
+  }
 }
 
 /**
  * Thrown when the input is not a valid PDF file
  */
 export class InvalidPdfError extends PdfPopplerError {
-  constructor(message: string = 'Invalid or corrupted PDF file', stderr?: string) {
-    super(message, stderr);
+  constructor(
+    message: string = 'Invalid or corrupted PDF file',
+    stderr?: string,
+    details?: ProcessErrorDetails,
+    /** Format the input was detected as, when rejected before running poppler */
+    public readonly detectedType?: DetectedType
+  ) {
+    super(message, stderr, details);
     this.name = 'InvalidPdfError';
   }
 }
@@ -26,12 +66,63 @@ export class InvalidPdfError extends PdfPopplerError {
  * Thrown when the PDF is password protected and no password was provided
  */
 export class EncryptedPdfError extends PdfPopplerError {
-  constructor(message: string = 'PDF is password protected', stderr?: string) {
-    super(message, stderr);
+  constructor(message: string = 'PDF is password protected', stderr?: string, details?: ProcessErrorDetails) {
+    super(message, stderr, details);
     this.name = 'EncryptedPdfError';
   }
 }
 
+/**
+ * Thrown when the PDF is password protected and the given password was rejected
+ * Extends EncryptedPdfError, so handlers for encrypted PDFs catch both.
+ */
+export class IncorrectPasswordError extends EncryptedPdfError {
+  constructor(message: string = 'Incorrect password', stderr?: string, details?: ProcessErrorDetails) {
+    super(message, stderr, details);
+    this.name = 'IncorrectPasswordError';
+  }
+}
+
+/**
+ * Thrown when a poppler process is killed for running longer than execOptions.timeout
+ */
+export class ProcessTimeoutError extends PdfPopplerError {
+  constructor(
+    public readonly timeoutMs: number,
+    stderr?: string,
+    details: ProcessErrorDetails = {}
+  ) {
+    super(`${details.binary ?? 'Process'} timed out after ${timeoutMs} ms`, stderr, details);
+    this.name = 'ProcessTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a poppler process is killed by a signal this library didn't
+ * send (e.g., SIGKILL from the out-of-memory killer, or SIGSEGV)
+ */
+export class ProcessCrashedError extends PdfPopplerError {
+  constructor(stderr?: string, details: ProcessErrorDetails = {}) {
+    super(`${details.binary ?? 'Process'} was killed by ${details.signal ?? 'a signal'}`, stderr, details);
+    this.name = 'ProcessCrashedError';
+  }
+}
+
+/**
+ * Thrown when a poppler process writes more than execOptions.maxBuffer bytes
+ * to stdout or stderr
+ */
+export class OutputLimitExceededError extends PdfPopplerError {
+  constructor(
+    public readonly maxBuffer: number,
+    stderr?: string,
+    details: ProcessErrorDetails = {}
+  ) {
+    super(`${details.binary ?? 'Process'} output exceeded maxBuffer of ${maxBuffer} bytes`, stderr, details);
+    this.name = 'OutputLimitExceededError';
+  }
+}
+
 /**
  * Thrown when a requested page number is out of range
  */
@@ -49,8 +140,74 @@ export class PageOutOfRangeError extends PdfPopplerError {
  * Thrown when a required Poppler binary is not found
  */
 export class BinaryNotFoundError extends PdfPopplerError {
-  constructor(public readonly binary: string) {
-    super(`Poppler binary not found: ${binary}`);
+  constructor(public readonly binary: string, details?: ProcessErrorDetails) {
+    super(`Poppler binary not found: ${binary}`, undefined, details);
     this.name = 'BinaryNotFoundError';
   }
 }
+
+/**
+ * Thrown when a Poppler binary exists but can't be run (e.g., missing execute
+ * permission, a binary directory on a noexec mount, or shared libraries the
+ * dynamic loader can't find)
+ */
+export class BinaryNotExecutableError extends PdfPopplerError {
+  constructor(
+    public readonly binary: string,
+    /** Path that failed to execute */
+    public readonly path?: string,
+    details?: ProcessErrorDetails,
+    stderr?: string
+  ) {
+    super(`Poppler binary is not executable: ${path ?? binary}`, stderr, details);
+    this.name = 'BinaryNotExecutableError';
+  }
+}
+
+/**
+ * Thrown when temp files can't be written or read (e.g., a full, read-only or
+ * inaccessible temp directory)
+ */
+export class TempDirectoryError extends PdfPopplerError {
+  constructor(
+    message: string,
+    /** Temp file or directory that failed, when known */
+    public readonly path?: string,
+    stderr?: string,
+    details?: ProcessErrorDetails
+  ) {
+    super(message, stderr, details);
+    this.name = 'TempDirectoryError';
+  }
+}
+
+/**
+ * Thrown when an input is larger than the configured maxInputBytes
+ */
+export class InputTooLargeError extends PdfPopplerError {
+  constructor(
+    public readonly maxInputBytes: number,
+    /** Input size in bytes (unknown for streams, which stop being read at the limit) */
+    public readonly size?: number
+  ) {
+    super(
+      size !== undefined
+        ? `Input of ${size} bytes exceeds the limit of ${maxInputBytes} bytes`
+        : `Input exceeds the limit of ${maxInputBytes} bytes`
+    );
+    this.name = 'InputTooLargeError';
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through its AbortSignal
+ */
+export class AbortError extends PdfPopplerError {
+  constructor(
+    message: string = 'Operation aborted',
+    public readonly reason?: unknown
+  ) {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
@@ -36,6 +36,22 @@
 // Main class
 export { PdfPoppler } from './PdfPoppler';
 
+// Document handle
+export { PdfDocument } from './PdfDocument';
+
+// Page selection
+export { resolvePageSelection } from './PageSelection';
+
+// Stderr diagnostics
+export { parseDiagnostics } from './Diagnostics';
+
+// Error classification
+export { DEFAULT_ERROR_RULES, classifyError } from './ErrorRules';
+
+// Render caches
+export { MemoryRenderCache } from './cache/MemoryRenderCache';
+export { FileRenderCache } from './cache/FileRenderCache';
+
 // Configuration builder
 export { PdfPopplerConfigBuilder, configure } from './PdfPopplerConfig';
 
@@ -43,25 +59,83 @@ export { PdfPopplerConfigBuilder, configure } from './PdfPopplerConfig';
 export {
   Platform,
   OutputFormat,
+  Renderer,
+  ThinLineMode,
   AntialiasMode,
+  TiffCompression,
+  ColorMode,
+  PageOrder,
   PdfPopplerConfig,
+  RenderCache,
+  MemoryRenderCacheOptions,
+  FileRenderCacheOptions,
   ExecOptions,
+  ProcessErrorDetails,
+  ErrorRuleContext,
+  ErrorRule,
+  DetectedType,
+  SniffResult,
+  OperationOptions,
+  DiagnosticLevel,
+  PopplerDiagnostic,
+  DiagnosticHandler,
+  PasswordOptions,
+  PasswordProvider,
+  PasswordContext,
+  PasswordReason,
+  InputOptions,
+  PageRange,
+  PageSelection,
+  PageSelectionOptions,
+  PageOptions,
+  FontOptions,
   ConvertOptions,
+  RegionUnit,
+  PageRegion,
+  FitSize,
+  RenderRegionOptions,
+  OpenOptions,
   TextOptions,
   TextResult,
+  TextLayoutOptions,
+  TextLayoutPage,
+  TextFlow,
+  TextBlock,
+  TextLine,
+  TextWord,
+  BoundingBox,
   HtmlOptions,
+  MultiPageTiffOptions,
+  ThumbnailFit,
+  ThumbnailFormat,
+  ThumbnailOptions,
+  ContactSheetOptions,
+  PostScriptLevel,
+  PaperSize,
+  PostScriptOptions,
   FontInfo,
   PdfInfo,
+  PageInfo,
+  PageBox,
   ImageData,
+  ImageExtractFormat,
+  ExtractImagesOptions,
+  ExtractedImage,
   VersionInfo,
   ResolvedConfig,
   PdfInput,
+  MergeSource,
+  MergeInput,
   PageResult,
   PageStreamResult,
+  SplitMode,
+  SplitOptions,
+  ExtractPagesOptions,
   SplitResult,
   SplitStreamResult,
   Attachment,
   ExtractedAttachment,
+  AttachmentInput,
   SignatureDetails,
   SignatureInfo,
 } from './types';
@@ -71,8 +145,16 @@ export {
   PdfPopplerError,
   InvalidPdfError,
   EncryptedPdfError,
+  IncorrectPasswordError,
   PageOutOfRangeError,
   BinaryNotFoundError,
+  BinaryNotExecutableError,
+  TempDirectoryError,
+  InputTooLargeError,
+  ProcessTimeoutError,
+  ProcessCrashedError,
+  OutputLimitExceededError,
+  AbortError,
 } from './errors';
 
 // Platform utilities (for advanced usage)
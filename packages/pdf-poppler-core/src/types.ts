@@ -3,12 +3,20 @@
  */
 
 import { Readable } from 'stream';
+import { PdfPopplerError } from './errors';
 
 /** Supported platforms */
 export type Platform = 'win32' | 'darwin' | 'linux';
 
 /** Supported output formats for PDF conversion */
-export type OutputFormat = 'png' | 'jpeg' | 'tiff' | 'pdf' | 'ps' | 'eps' | 'svg';
+export type OutputFormat = 'png' | 'jpeg' | 'tiff' | 'pdf' | 'ps' | 'eps' | 'svg' | 'ppm' | 'pgm' | 'pbm';
+
+/**
+ * Rasterizer backend
+ * - 'cairo': pdftocairo (all formats)
+ * - 'splash': pdftoppm (raster formats only, never needs a virtual display)
+ */
+export type Renderer = 'cairo' | 'splash';
 
 /** Input source - file path, Buffer, Uint8Array, or Readable stream */
 export type PdfInput = string | Buffer | Uint8Array | Readable;
@@ -40,6 +48,85 @@ export interface PdfPopplerConfig {
 
   /** Custom exec options for child_process */
   execOptions?: ExecOptions;
+
+  /** Default number of pages rendered in parallel by convert operations (default: 1) */
+  concurrency?: number;
+
+  /** Default rasterizer for convert operations (default: 'cairo') */
+  renderer?: Renderer;
+
+  /** Cache for rendered pages, extracted text and metadata (default: none) */
+  cache?: RenderCache;
+
+  /**
+   * Largest accepted input in bytes (default: unlimited). Larger inputs are
+   * rejected with InputTooLargeError; streams stop being read at the limit.
+   */
+  maxInputBytes?: number;
+
+  /**
+   * Asked for a password when an encrypted PDF can't be opened with the
+   * password given to the operation (overridden by the passwordProvider option)
+   */
+  passwordProvider?: PasswordProvider;
+
+  /**
+   * Called with each problem poppler reports while operations succeed
+   * (overridden by the onDiagnostic option)
+   */
+  onDiagnostic?: DiagnosticHandler;
+
+  /**
+   * Rules turning failures into errors, tried before the built-in
+   * DEFAULT_ERROR_RULES in the given order
+   */
+  errorRules?: ErrorRule[];
+
+  /**
+   * Check the format of inputs before running poppler (default: true)
+   * Inputs detected as another format (PNG, HTML, ...) are rejected with
+   * InvalidPdfError; unrecognized and truncated inputs are left to poppler.
+   */
+  validateInput?: boolean;
+}
+
+/**
+ * Storage for poppler output
+ * Keys are hashes of the PDF bytes, the normalized operation options and the
+ * poppler version, so entries never need to be invalidated. Methods may
+ * return values or promises.
+ */
+export interface RenderCache {
+  /** Get a cached value, or undefined on a miss */
+  get(key: string): Buffer | undefined | Promise<Buffer | undefined>;
+
+  /** Store a value */
+  set(key: string, value: Buffer): void | Promise<void>;
+
+  /** Check whether a value is cached */
+  has(key: string): boolean | Promise<boolean>;
+}
+
+/**
+ * Options for the in-memory render cache
+ */
+export interface MemoryRenderCacheOptions {
+  /** Maximum number of entries (default: 100) */
+  maxEntries?: number;
+
+  /** Maximum total size of the entries in bytes (default: 64 MB) */
+  maxBytes?: number;
+}
+
+/**
+ * Options for the filesystem render cache
+ */
+export interface FileRenderCacheOptions {
+  /** Directory holding the cache files (created if missing) */
+  directory: string;
+
+  /** Maximum total size of the cache files in bytes (default: 256 MB) */
+  maxBytes?: number;
 }
 
 /**
@@ -52,42 +139,393 @@ export interface ExecOptions {
   env?: NodeJS.ProcessEnv;
 }
 
+/**
+ * Details of the poppler process behind an error
+ */
+export interface ProcessErrorDetails {
+  /** Public method the error surfaced from (e.g., 'convert') */
+  operation?: string;
+
+  /** Binary name without extension (e.g., 'pdftocairo') */
+  binary?: string;
+
+  /** Arguments, with password values replaced by '***' */
+  args?: string[];
+
+  /** Exit code, or null when the process was killed by a signal */
+  exitCode?: number | null;
+
+  /** Signal that killed the process */
+  signal?: NodeJS.Signals | null;
+
+  /** Time from spawning the process until it exited */
+  durationMs?: number;
+
+  /** Bytes the process wrote to stdout */
+  stdoutBytes?: number;
+
+  /** Problems the process reported on stderr */
+  diagnostics?: PopplerDiagnostic[];
+}
+
+/**
+ * Format of an input, detected from its first and last bytes
+ * - 'pdf': a %PDF- header within the first 1024 bytes
+ * - 'empty': no bytes at all
+ * - 'docx': a ZIP archive holding a Word document
+ * - 'unknown': none of the formats below
+ */
+export type DetectedType = 'pdf' | 'empty' | 'png' | 'jpeg' | 'zip' | 'docx' | 'html' | 'unknown';
+
+/**
+ * Result of sniffing an input
+ */
+export interface SniffResult {
+  /** Detected format */
+  type: DetectedType;
+
+  /** Input size in bytes */
+  size: number;
+
+  /** Version from the PDF header (e.g., '1.7') */
+  version?: string;
+
+  /** Bytes of garbage before the PDF header */
+  headerOffset?: number;
+
+  /** Whether the PDF lacks a %%EOF marker in its last 64 KB (e.g., a cut off upload) */
+  truncated?: boolean;
+}
+
+/**
+ * Failure an error rule classifies
+ */
+export interface ErrorRuleContext {
+  /** Binary name without extension, when a poppler process failed */
+  binary?: string;
+
+  /** Exit code of the process */
+  exitCode?: number | null;
+
+  /** Node.js error code of a failed system call (e.g., 'EACCES') */
+  errorCode?: string;
+
+  /** Failed system call (e.g., 'spawn /usr/bin/pdftocairo' or 'mkdir') */
+  syscall?: string;
+
+  /** Path the failed system call was given */
+  path?: string;
+
+  /** Whether the process was given a password */
+  hasPassword: boolean;
+
+  /** Output of the process on stderr ('' if none) */
+  stderr: string;
+
+  /** Error the failure was reported with */
+  error: Error;
+
+  /** Details to pass on to the created error */
+  details: ProcessErrorDetails;
+}
+
+/**
+ * Rule turning a failure into an error
+ * A rule matches when all of its conditions do; conditions left out match
+ * everything. The first matching rule creates the error.
+ *
+ * @example
+ * ```typescript
+ * const rule: ErrorRule = {
+ *   name: 'out-of-memory',
+ *   stderr: /out of memory/i,
+ *   create: ({ stderr, details }) => new PdfPopplerError('Poppler ran out of memory', stderr, details),
+ * };
+ * ```
+ */
+export interface ErrorRule {
+  /** Name identifying the rule (e.g., 'incorrect-password') */
+  name: string;
+
+  /** Binaries the rule applies to */
+  binary?: string | string[];
+
+  /** Exit codes the rule applies to */
+  exitCode?: number | number[];
+
+  /** Node.js error codes the rule applies to */
+  errorCode?: string | string[];
+
+  /** Pattern stderr has to match */
+  stderr?: RegExp;
+
+  /** Further condition */
+  test?: (context: ErrorRuleContext) => boolean;
+
+  /** Create the error */
+  create: (context: ErrorRuleContext) => PdfPopplerError;
+}
+
 /** Antialias mode for rendering */
 export type AntialiasMode = 'default' | 'none' | 'gray' | 'subpixel';
 
+/**
+ * Color mode of rendered raster output
+ * - 'rgb': full color
+ * - 'gray': 8-bit grayscale
+ * - 'mono': 1-bit black and white
+ * - 'cmyk': CMYK (JPEG only, rendered with the splash renderer)
+ */
+export type ColorMode = 'rgb' | 'gray' | 'mono' | 'cmyk';
+
+/** pdftoppm thin line rendering mode */
+export type ThinLineMode = 'none' | 'solid' | 'shape';
+
+/** TIFF compression ('g4' is CCITT Group 4, for 1-bit images) */
+export type TiffCompression = 'none' | 'packbits' | 'lzw' | 'deflate' | 'jpeg' | 'g4';
+
+/**
+ * Order in which convertIterator() yields pages
+ * - 'ordered': in the order the pages were requested
+ * - 'as-completed': as soon as each page finishes rendering
+ */
+export type PageOrder = 'ordered' | 'as-completed';
+
+/** Severity of a poppler diagnostic */
+export type DiagnosticLevel = 'warning' | 'error';
+
+/**
+ * Problem poppler reported on stderr
+ */
+export interface PopplerDiagnostic {
+  /** 'error' for errors poppler recovered from (or failed on), 'warning' otherwise */
+  level: DiagnosticLevel;
+
+  /**
+   * Poppler's error category: 'syntax-warning', 'syntax-error', 'config-error',
+   * 'command-line-error', 'io-error', 'permission-error', 'unimplemented',
+   * 'internal-error', or 'font-substitution' and 'other' for further notices
+   */
+  code: string;
+
+  /** Byte offset in the PDF the problem was found at */
+  offset?: number;
+
+  /** Page being processed, known when a poppler run covered a single page */
+  page?: number;
+
+  /** Message without the category prefix */
+  message: string;
+}
+
+/** Receives the diagnostics of successful poppler runs */
+export type DiagnosticHandler = (diagnostic: PopplerDiagnostic) => void;
+
+/**
+ * Options accepted by every operation
+ */
+export interface OperationOptions {
+  /**
+   * Cancels the operation when aborted: the running poppler process is
+   * killed, temp files are removed, and the operation rejects with AbortError
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with each problem poppler reports while the operation succeeds
+   * (failed operations carry them as `error.diagnostics`)
+   */
+  onDiagnostic?: DiagnosticHandler;
+}
+
+/**
+ * Why a password provider is asked for a password
+ * - 'missing': the PDF needs a password and none was given
+ * - 'incorrect': the last password was rejected
+ */
+export type PasswordReason = 'missing' | 'incorrect';
+
+/**
+ * Context passed to a password provider
+ */
+export interface PasswordContext {
+  /** Method asking for the password (e.g., 'convert') */
+  method: string;
+
+  /** 1 for the first request, counting up with each rejected password */
+  attempt: number;
+
+  /** Why the password is needed */
+  reason: PasswordReason;
+
+  /** Abort signal of the operation */
+  signal?: AbortSignal;
+}
+
+/**
+ * Supplies passwords for encrypted PDFs
+ * Return undefined to give up; the operation then fails with
+ * EncryptedPdfError or IncorrectPasswordError.
+ */
+export type PasswordProvider = (context: PasswordContext) => Promise<string | undefined> | string | undefined;
+
+/**
+ * Passwords for encrypted PDFs, accepted by every operation on a PDF
+ */
+export interface PasswordOptions {
+  /** PDF user password (for encrypted PDFs) */
+  password?: string;
+
+  /** PDF owner password (for encrypted PDFs) */
+  ownerPassword?: string;
+
+  /** Asked for a password when the given one is missing or incorrect */
+  passwordProvider?: PasswordProvider;
+}
+
+/**
+ * Options for operations on a PDF without further settings
+ * (info, flatten, attachments, signatures)
+ */
+export interface InputOptions extends OperationOptions, PasswordOptions {}
+
+/**
+ * Inclusive page range; negative numbers count from the end (-1 is the last page)
+ */
+export interface PageRange {
+  /** First page (default: 1) */
+  first?: number;
+
+  /** Last page (default: -1, the last page) */
+  last?: number;
+}
+
+/**
+ * Page selection, resolved by resolvePageSelection()
+ * - number: a single page (negative numbers count from the end)
+ * - number[]: a list of pages (e.g., [1, 3, -1])
+ * - PageRange: an inclusive range (e.g., { first: 2, last: -2 })
+ * - string: comma separated terms (e.g., "1-3,7,odd,last-2")
+ */
+export type PageSelection = number | number[] | PageRange | string;
+
+/**
+ * Page selection options shared by page-based operations
+ * `pages` takes precedence over `page`, which takes precedence over
+ * `firstPage`/`lastPage`. Without any of them all pages are selected.
+ */
+export interface PageSelectionOptions {
+  /** Select pages (e.g., [1, 3, 5], { first: 2, last: -1 } or "1-3,7,odd,last-2") */
+  pages?: PageSelection;
+
+  /** Select only this page */
+  page?: number | null;
+
+  /** First page (for page ranges) */
+  firstPage?: number;
+
+  /** Last page (for page ranges) */
+  lastPage?: number;
+}
+
+/**
+ * Options for page-based operations without further settings
+ * (split, listImages)
+ */
+export interface PageOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {}
+
+/**
+ * How split() extracts pages:
+ * - 'lossless': copy the page objects with pdfseparate, keeping form fields,
+ *   links and tagged structure
+ * - 'rerender': redraw the pages through pdftocairo
+ */
+export type SplitMode = 'lossless' | 'rerender';
+
+/**
+ * Options for splitting a PDF into single-page PDFs
+ */
+export interface SplitOptions extends PageOptions {
+  /** Extraction mode (default: 'lossless') */
+  mode?: SplitMode;
+}
+
+/**
+ * Options for extracting pages into one PDF
+ * Encrypted PDFs are decrypted through pdftocairo, since pdfseparate can't open them.
+ */
+export interface ExtractPagesOptions extends OperationOptions, PasswordOptions {}
+
+/**
+ * Options for listing fonts
+ */
+export interface FontOptions extends PageOptions {}
+
+/** Unit of region coordinates */
+export type RegionUnit = 'pt' | 'px';
+
+/**
+ * Rectangular area of a page, measured from the top-left corner
+ */
+export interface PageRegion {
+  /** Left edge */
+  x: number;
+
+  /** Top edge */
+  y: number;
+
+  /** Width of the area */
+  width: number;
+
+  /** Height of the area */
+  height: number;
+
+  /**
+   * Unit of the coordinates (default: 'pt')
+   * - 'pt': PDF points (1/72 inch), as returned by textLayout()
+   * - 'px': pixels of the rendered output
+   */
+  unit?: RegionUnit;
+}
+
+/**
+ * Target size that each page is scaled to fit, keeping its aspect ratio
+ */
+export interface FitSize {
+  /** Maximum width in pixels */
+  width: number;
+
+  /** Maximum height in pixels */
+  height: number;
+}
+
 /**
  * Options for PDF to image conversion
  */
-export interface ConvertOptions {
+export interface ConvertOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {
   /** Output format (default: 'png') */
   format?: OutputFormat;
 
   /** Scale to this size in pixels (default: 1024 for raster formats) */
   scale?: number | null;
 
-  /** Convert only this page number (default: all pages) */
-  page?: number | null;
-
-  /** Convert specific pages (e.g., [1, 3, 5]) */
-  pages?: number[];
-
   /** Resolution in DPI (alternative to scale, takes precedence) */
   dpi?: number;
 
   /** JPEG quality 1-100 (only for JPEG format) */
   quality?: number;
 
-  /** First page to convert (for page ranges) */
-  firstPage?: number;
+  /** TIFF compression (only for TIFF format, default: none); 'g4' renders 1-bit images */
+  tiffCompression?: TiffCompression;
 
-  /** Last page to convert (for page ranges) */
-  lastPage?: number;
+  /** Color mode (raster formats only, default: 'rgb') */
+  color?: ColorMode;
 
-  /** PDF user password (for encrypted PDFs) */
-  password?: string;
-
-  /** PDF owner password (for encrypted PDFs) */
-  ownerPassword?: string;
+  /**
+   * Gray level 0-255 below which pixels turn black in 'mono' mode (png, tiff
+   * and pbm only). Without a threshold poppler dithers mono output.
+   */
+  threshold?: number;
 
   /** Use crop box instead of media box */
   cropBox?: boolean;
@@ -97,30 +535,77 @@ export interface ConvertOptions {
 
   /** Antialias mode for rendering */
   antialias?: AntialiasMode;
+
+  /**
+   * Rasterizer (default: instance renderer, or 'cairo').
+   * ppm, pgm and pbm output always uses 'splash'.
+   */
+  renderer?: Renderer;
+
+  /** Antialias vector artwork (splash renderer only, default: follows `antialias`) */
+  aaVector?: boolean;
+
+  /** Thin line rendering mode (splash renderer only) */
+  thinLineMode?: ThinLineMode;
+
+  /** Use FreeType for font rasterization (splash renderer only, default: true) */
+  freetype?: boolean;
+
+  /**
+   * Render only this area of each page.
+   * Raster output uses `dpi` (default: 150) instead of `scale`.
+   */
+  region?: PageRegion;
+
+  /**
+   * Scale each page to fit inside this size (png, jpeg and tiff only).
+   * Sizes are computed per page from pageInfo(), so mixed page sizes and
+   * rotated pages keep their aspect ratio. Takes precedence over `scale`.
+   */
+  fit?: FitSize;
+
+  /**
+   * Render all selected pages with a single pdftocairo process per page range
+   * instead of one process per page (png, jpeg and tiff only)
+   */
+  batch?: boolean;
+
+  /**
+   * Number of pages rendered in parallel (default: instance concurrency, or 1).
+   * Applies to per-page rendering; batch rendering uses one process per page range.
+   */
+  concurrency?: number;
+
+  /**
+   * Order in which convertIterator() yields pages (default: 'ordered').
+   * convert() always returns pages in the requested order.
+   */
+  order?: PageOrder;
 }
 
 /**
- * Options for text extraction
+ * Options for renderRegion() (conversion options without page selection)
  */
-export interface TextOptions {
-  /** Extract from specific page only */
-  page?: number;
+export type RenderRegionOptions = Omit<
+  ConvertOptions,
+  'page' | 'pages' | 'firstPage' | 'lastPage' | 'region' | 'fit' | 'batch' | 'concurrency' | 'order'
+>;
 
-  /** First page to extract (for page ranges) */
-  firstPage?: number;
-
-  /** Last page to extract (for page ranges) */
-  lastPage?: number;
+/**
+ * Options for opening a PDF document
+ */
+export interface OpenOptions extends OperationOptions, PasswordOptions {}
 
+/**
+ * Options for text extraction
+ */
+export interface TextOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {
   /** Maintain original layout spacing */
   layout?: boolean;
 
   /** Raw text extraction order */
   raw?: boolean;
 
-  /** PDF user password (for encrypted PDFs) */
-  password?: string;
-
   /** Output encoding (default: UTF-8) */
   encoding?: string;
 
@@ -135,21 +620,14 @@ export interface TextOptions {
 }
 
 /**
- * Options for HTML conversion
+ * Options for structured text extraction
  */
-export interface HtmlOptions {
-  /** Convert specific page only */
-  page?: number;
-
-  /** First page to convert (for page ranges) */
-  firstPage?: number;
-
-  /** Last page to convert (for page ranges) */
-  lastPage?: number;
-
-  /** PDF user password (for encrypted PDFs) */
-  password?: string;
+export interface TextLayoutOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {}
 
+/**
+ * Options for HTML conversion
+ */
+export interface HtmlOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {
   /** Don't generate frame structure */
   noFrames?: boolean;
 
@@ -166,6 +644,124 @@ export interface HtmlOptions {
   zoom?: number;
 }
 
+/**
+ * Options for multi-page TIFF output
+ */
+export interface MultiPageTiffOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {
+  /** Resolution in DPI (default: 150) */
+  dpi?: number;
+
+  /** Compression of each page (default: 'none'); 'g4' implies `mono` */
+  compression?: TiffCompression;
+
+  /** Render 1-bit black and white pages */
+  mono?: boolean;
+}
+
+/**
+ * How thumbnails fit their box
+ * - 'inside': scale the page to fit inside the box, keeping its aspect ratio
+ * - 'contain': like 'inside', then pad to the exact box size (png only)
+ * - 'cover': scale the page to cover the box and crop it to the exact box size
+ */
+export type ThumbnailFit = 'inside' | 'contain' | 'cover';
+
+/** Thumbnail image format */
+export type ThumbnailFormat = 'png' | 'jpeg';
+
+/**
+ * Options for thumbnail generation
+ */
+export interface ThumbnailOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {
+  /** Box width in pixels */
+  width: number;
+
+  /** Box height in pixels */
+  height: number;
+
+  /** How pages fit the box (default: 'inside') */
+  fit?: ThumbnailFit;
+
+  /** Output format (default: 'png') */
+  format?: ThumbnailFormat;
+
+  /** JPEG quality 1-100 (jpeg only) */
+  quality?: number;
+
+  /** Padding color for 'contain' as '#rgb' or '#rrggbb' (default: '#ffffff') */
+  background?: string;
+
+  /** Use crop box instead of media box */
+  cropBox?: boolean;
+
+  /** Number of pages rendered in parallel (default: instance concurrency) */
+  concurrency?: number;
+}
+
+/**
+ * Options for contact sheets (page thumbnails laid out in a grid)
+ */
+export interface ContactSheetOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {
+  /** Number of thumbnails per row (default: 4) */
+  columns?: number;
+
+  /** Tile width in pixels (default: 200) */
+  tileWidth?: number;
+
+  /** Tile height in pixels (default: tallest page scaled to tileWidth) */
+  tileHeight?: number;
+
+  /** Space around and between tiles in pixels (default: 10) */
+  gutter?: number;
+
+  /** Print the page number below each tile */
+  labels?: boolean;
+
+  /** Sheet color as '#rgb' or '#rrggbb' (default: '#ffffff') */
+  background?: string;
+
+  /** Label color as '#rgb' or '#rrggbb' (default: '#000000') */
+  labelColor?: string;
+
+  /** Use crop box instead of media box */
+  cropBox?: boolean;
+
+  /** Number of pages rendered in parallel (default: instance concurrency) */
+  concurrency?: number;
+}
+
+/** PostScript language level */
+export type PostScriptLevel = 1 | 2 | 3;
+
+/** Paper sizes known to pdftops ('match' uses each page's own size) */
+export type PaperSize = 'letter' | 'legal' | 'A4' | 'A3' | 'match';
+
+/**
+ * Options for PostScript output
+ */
+export interface PostScriptOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {
+  /** PostScript language level (default: 2) */
+  level?: PostScriptLevel;
+
+  /** Paper size, or a custom { width, height } in points (default: letter) */
+  paper?: PaperSize | { width: number; height: number };
+
+  /** Request duplex printing */
+  duplex?: boolean;
+
+  /** Expand pages smaller than the paper to fill it */
+  expand?: boolean;
+
+  /** Don't shrink pages larger than the paper */
+  noShrink?: boolean;
+
+  /** Don't center pages smaller than the paper */
+  noCenter?: boolean;
+
+  /** Generate Encapsulated PostScript (requires a single page) */
+  eps?: boolean;
+}
+
 /**
  * Result of text extraction for a single page
  */
@@ -177,6 +773,62 @@ export interface TextResult {
   text: string;
 }
 
+/**
+ * Bounding box in PDF points, origin at the top-left corner of the page
+ */
+export interface BoundingBox {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+/**
+ * Word with its bounding box
+ */
+export interface TextWord extends BoundingBox {
+  /** Word text */
+  text: string;
+}
+
+/**
+ * Line of words
+ */
+export interface TextLine extends BoundingBox {
+  words: TextWord[];
+}
+
+/**
+ * Block of lines (roughly a paragraph)
+ */
+export interface TextBlock extends BoundingBox {
+  lines: TextLine[];
+}
+
+/**
+ * Flow of blocks in reading order (e.g., a column)
+ */
+export interface TextFlow {
+  blocks: TextBlock[];
+}
+
+/**
+ * Text layout of a single page from pdftotext -bbox-layout
+ */
+export interface TextLayoutPage {
+  /** Page number (1-indexed) */
+  page: number;
+
+  /** Page width in points */
+  width: number;
+
+  /** Page height in points */
+  height: number;
+
+  /** Text flows on the page */
+  flows: TextFlow[];
+}
+
 /**
  * Font information from pdffonts
  */
@@ -220,6 +872,29 @@ export interface PageStreamResult {
   stream: Readable;
 }
 
+/**
+ * One source of a merge, with its own page selection and passwords
+ * Selected pages are merged in selection order, so sources can contribute
+ * pages in any order and more than once.
+ */
+export interface MergeSource extends PageSelectionOptions, PasswordOptions {
+  /** PDF as file path, Buffer, Uint8Array, or Readable stream */
+  input: PdfInput;
+
+  /**
+   * Keep the source's bookmarks (default: keep them when possible)
+   * Bookmarks survive only when the whole document is merged without a
+   * password; true fails for sources with a page selection or a password,
+   * false drops them.
+   */
+  outline?: boolean;
+}
+
+/**
+ * Merge input: a whole PDF, or a source with page selection and passwords
+ */
+export type MergeInput = PdfInput | MergeSource;
+
 /**
  * Result of splitting a PDF page
  */
@@ -268,6 +943,18 @@ export interface ExtractedAttachment {
   data: Buffer;
 }
 
+/**
+ * File to embed as a PDF attachment
+ */
+export interface AttachmentInput {
+  /** Attachment filename (must not contain path separators) */
+  name: string;
+  /** Attachment data */
+  data: Buffer | Uint8Array;
+  /** Replace an existing attachment with the same name (default: false) */
+  replace?: boolean;
+}
+
 /**
  * Digital signature information
  */
@@ -334,6 +1021,55 @@ export interface PdfInfo {
   [key: string]: string | number | undefined;
 }
 
+/**
+ * PDF page box in points, in PDF user space (origin at the bottom-left)
+ */
+export interface PageBox {
+  /** Left edge */
+  x1: number;
+
+  /** Bottom edge */
+  y1: number;
+
+  /** Right edge */
+  x2: number;
+
+  /** Top edge */
+  y2: number;
+}
+
+/**
+ * Geometry of a single page (from pdfinfo -box)
+ */
+export interface PageInfo {
+  /** Page number (1-indexed) */
+  page: number;
+
+  /** Displayed width in points (crop box, with rotation applied) */
+  width: number;
+
+  /** Displayed height in points (crop box, with rotation applied) */
+  height: number;
+
+  /** Page rotation in degrees (0, 90, 180 or 270) */
+  rotation: number;
+
+  /** Media box (physical medium) */
+  mediaBox: PageBox;
+
+  /** Crop box (visible area) */
+  cropBox: PageBox;
+
+  /** Bleed box (clipping area in production) */
+  bleedBox: PageBox;
+
+  /** Trim box (finished page size) */
+  trimBox: PageBox;
+
+  /** Art box (meaningful content) */
+  artBox: PageBox;
+}
+
 /**
  * Image data extracted from PDF
  */
@@ -357,6 +1093,46 @@ export interface ImageData {
   [key: string]: string;
 }
 
+/** Output format for extracted images */
+export type ImageExtractFormat = 'native' | 'png' | 'jpeg';
+
+/**
+ * Options for embedded image extraction
+ */
+export interface ExtractImagesOptions extends OperationOptions, PageSelectionOptions, PasswordOptions {
+  /**
+   * Output format (default: 'native')
+   * - 'native': keep the embedded encoding where possible (pdfimages -all)
+   * - 'png': write all images as PNG (pdfimages -png)
+   * - 'jpeg': write DCT images as JPEG, others as PPM/PBM (pdfimages -j)
+   */
+  format?: ImageExtractFormat;
+
+  /** Skip images narrower than this many pixels */
+  minWidth?: number;
+
+  /** Skip images shorter than this many pixels */
+  minHeight?: number;
+}
+
+/**
+ * Embedded image extracted from PDF
+ */
+export interface ExtractedImage {
+  /** Page number (1-indexed) */
+  page: number;
+  /** Image number within the document (as reported by pdfimages) */
+  num: number;
+  /** File name pdfimages gave the image (e.g., "img-001-000.png") */
+  name: string;
+  /** Image format derived from the file extension (e.g., "png", "jpeg", "jp2", "ccitt") */
+  format: string;
+  /** Image data as Buffer */
+  data: Buffer;
+  /** Image metadata from pdfimages -list */
+  meta: ImageData;
+}
+
 /**
  * Information about an available poppler version
  */
@@ -382,5 +1158,13 @@ export interface ResolvedConfig {
   binaryPath?: string;
   binaryPackage?: string;
   version?: string;
+  concurrency: number;
+  renderer: Renderer;
+  cache?: RenderCache;
+  maxInputBytes?: number;
+  passwordProvider?: PasswordProvider;
+  onDiagnostic?: DiagnosticHandler;
+  errorRules: ErrorRule[];
+  validateInput: boolean;
   execOptions: Required<Pick<ExecOptions, 'encoding' | 'maxBuffer'>> & ExecOptions;
 }
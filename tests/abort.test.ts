@@ -0,0 +1,131 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { PdfPoppler, PdfPopplerError, AbortError } from 'pdf-poppler-core';
+
+describe('Abort Signal', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  const listTempFiles = () =>
+    fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('pdf-poppler'));
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe('AbortError', () => {
+    it('should extend PdfPopplerError', () => {
+      const error = new AbortError();
+
+      expect(error).toBeInstanceOf(PdfPopplerError);
+      expect(error.name).toBe('AbortError');
+    });
+  });
+
+  describe('already aborted signal', () => {
+    const aborted = () => {
+      const controller = new AbortController();
+      controller.abort();
+      return controller.signal;
+    };
+
+    it('should reject info()', async () => {
+      await expect(poppler.info(samplePdfBuffer, { signal: aborted() })).rejects.toThrow(AbortError);
+    });
+
+    it('should reject convert()', async () => {
+      await expect(poppler.convert(samplePdfBuffer, { signal: aborted() })).rejects.toThrow(AbortError);
+    });
+
+    it('should reject text()', async () => {
+      await expect(poppler.text(samplePdfBuffer, { signal: aborted() })).rejects.toThrow(AbortError);
+    });
+
+    it('should reject flatten()', async () => {
+      await expect(poppler.flatten(samplePdfBuffer, { signal: aborted() })).rejects.toThrow(AbortError);
+    });
+
+    it('should reject merge()', async () => {
+      await expect(
+        poppler.merge([samplePdfBuffer, samplePdfBuffer], { signal: aborted() })
+      ).rejects.toThrow(AbortError);
+    });
+
+    it('should reject listImages() and remove its temp file', async () => {
+      const before = listTempFiles();
+
+      await expect(poppler.listImages(samplePdfBuffer, { signal: aborted() })).rejects.toThrow(AbortError);
+
+      expect(listTempFiles()).toEqual(before);
+    });
+
+    it('should destroy streams with AbortError', async () => {
+      const stream = await poppler.flattenToStream(samplePdfBuffer, { signal: aborted() });
+
+      await expect(
+        new Promise((resolve, reject) => {
+          stream.on('error', reject);
+          stream.on('end', resolve);
+          stream.resume();
+        })
+      ).rejects.toThrow(AbortError);
+    });
+  });
+
+  describe('aborting a running operation', () => {
+    it('should reject convert() with AbortError', async () => {
+      const controller = new AbortController();
+      const promise = poppler.convert(samplePdfBuffer, { format: 'png', dpi: 300, signal: controller.signal });
+
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(promise).rejects.toThrow(AbortError);
+    });
+
+    it('should stop convertIterator() between pages', async () => {
+      const controller = new AbortController();
+      const pages: number[] = [];
+
+      await expect((async () => {
+        for await (const { page } of poppler.convertIterator(samplePdfBuffer, {
+          pages: [1, 1],
+          signal: controller.signal,
+        })) {
+          pages.push(page);
+          controller.abort();
+        }
+      })()).rejects.toThrow(AbortError);
+
+      expect(pages).toEqual([1]);
+    });
+
+    it('should remove temp files of batch rendering', async () => {
+      const controller = new AbortController();
+      const before = listTempFiles();
+
+      await expect((async () => {
+        for await (const _page of poppler.convertIterator(samplePdfBuffer, {
+          pages: [1, 1],
+          batch: true,
+          signal: controller.signal,
+        })) {
+          controller.abort();
+        }
+      })()).rejects.toThrow(AbortError);
+
+      expect(listTempFiles()).toEqual(before);
+    });
+
+    it('should not affect operations without the signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const info = await poppler.info(samplePdfBuffer);
+      expect(parseInt(info.pages, 10)).toBeGreaterThan(0);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { Readable } from 'stream';
-import { PdfPoppler, InvalidPdfError } from 'pdf-poppler-core';
+import { PdfPoppler, InvalidPdfError, PdfPopplerError } from 'pdf-poppler-core';
 
 describe('Attachment Extraction', () => {
   const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
@@ -56,6 +56,64 @@ describe('Attachment Extraction', () => {
     });
   });
 
+  describe('addAttachment()', () => {
+    const xml = Buffer.from('<?xml version="1.0"?><Invoice><ID>42</ID></Invoice>');
+
+    it('should return a PDF buffer', async () => {
+      const result = await poppler.addAttachment(samplePdfBuffer, { name: 'factur-x.xml', data: xml });
+      expect(result).toBeInstanceOf(Buffer);
+      expect(result.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should round-trip the attachment data', async () => {
+      const result = await poppler.addAttachment(samplePdfBuffer, { name: 'factur-x.xml', data: xml });
+
+      const attachments = await poppler.listAttachments(result);
+      expect(attachments.map(a => a.name)).toContain('factur-x.xml');
+
+      const extracted = await poppler.extractAllAttachments(result);
+      const invoice = extracted.find(a => a.name === 'factur-x.xml');
+      expect(invoice?.data.equals(xml)).toBe(true);
+    });
+
+    it('should replace an existing attachment when replace is set', async () => {
+      const first = await poppler.addAttachment(samplePdfBuffer, { name: 'invoice.xml', data: xml });
+      const updated = Buffer.from('<Invoice><ID>43</ID></Invoice>');
+      const second = await poppler.addAttachment(first, { name: 'invoice.xml', data: updated, replace: true });
+
+      const extracted = await poppler.extractAllAttachments(second);
+      expect(extracted.length).toBe(1);
+      expect(extracted[0].data.equals(updated)).toBe(true);
+    });
+
+    it('should return a readable stream from addAttachmentToStream()', async () => {
+      const stream = await poppler.addAttachmentToStream(samplePdfBuffer, { name: 'factur-x.xml', data: xml });
+      expect(stream).toBeInstanceOf(Readable);
+    });
+  });
+
+  describe('addAttachments()', () => {
+    it('should add all attachments in one call', async () => {
+      const result = await poppler.addAttachments(samplePdfBuffer, [
+        { name: 'a.txt', data: Buffer.from('first') },
+        { name: 'b.txt', data: Buffer.from('second') },
+      ]);
+
+      const attachments = await poppler.listAttachments(result);
+      expect(attachments.map(a => a.name)).toEqual(['a.txt', 'b.txt']);
+    });
+
+    it('should throw for an empty attachment list', async () => {
+      await expect(poppler.addAttachments(samplePdfBuffer, [])).rejects.toThrow(PdfPopplerError);
+    });
+
+    it('should reject attachment names containing path separators', async () => {
+      await expect(
+        poppler.addAttachments(samplePdfBuffer, [{ name: '../evil.txt', data: Buffer.from('x') }])
+      ).rejects.toThrow('Invalid attachment name');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should throw InvalidPdfError for invalid input on listAttachments', async () => {
       const invalidBuffer = Buffer.from('not a pdf file');
@@ -0,0 +1,113 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { PdfPoppler, PageResult, PageOutOfRangeError } from 'pdf-poppler-core';
+
+describe('Batch Rendering', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+  let totalPages: number;
+
+  beforeAll(async () => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+
+    try {
+      const info = await poppler.info(samplePdfBuffer);
+      totalPages = parseInt(info.pages, 10);
+    } catch (e) {
+      // Ignore warmup errors
+    }
+  }, 15000);
+
+  describe('convert() with batch: true', () => {
+    it('should render all pages in order', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, { format: 'png', batch: true });
+
+      expect(pages.length).toBe(totalPages);
+      pages.forEach((page, index) => {
+        expect(page.page).toBe(index + 1);
+        expect(page.data).toBeInstanceOf(Buffer);
+        // PNG magic bytes
+        expect(page.data.subarray(0, 4).toString('hex')).toBe('89504e47');
+      });
+    });
+
+    it('should produce the same pages as per-page rendering', async () => {
+      const single = await poppler.convert(samplePdfBuffer, { format: 'png', page: 1 });
+      const batch = await poppler.convert(samplePdfBuffer, { format: 'png', page: 1, batch: true });
+
+      expect(batch.length).toBe(1);
+      expect(batch[0].page).toBe(1);
+      expect(batch[0].data.length).toBe(single[0].data.length);
+    });
+
+    it('should keep the requested order for non-contiguous pages', async () => {
+      const pages = [totalPages, 1];
+      const results = await poppler.convert(samplePdfBuffer, { format: 'jpeg', pages, batch: true });
+
+      expect(results.map(r => r.page)).toEqual(pages);
+    });
+
+    it('should validate page selection', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { page: 999, batch: true })
+      ).rejects.toThrow(PageOutOfRangeError);
+    });
+
+    it('should fall back to per-page rendering for non-raster formats', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, { format: 'svg', page: 1, batch: true });
+
+      expect(pages.length).toBe(1);
+      expect(pages[0].data.toString()).toContain('<svg');
+    });
+
+    it('should reject for invalid PDF', async () => {
+      const invalidBuffer = Buffer.from('not a pdf file');
+      await expect(poppler.convert(invalidBuffer, { batch: true })).rejects.toThrow();
+    });
+  });
+
+  describe('convertIterator() with batch: true', () => {
+    it('should yield pages as they are rendered', async () => {
+      const pages: PageResult[] = [];
+
+      for await (const page of poppler.convertIterator(samplePdfBuffer, { format: 'png', batch: true })) {
+        pages.push(page);
+      }
+
+      expect(pages.map(p => p.page)).toEqual(
+        Array.from({ length: totalPages }, (_, i) => i + 1)
+      );
+    });
+
+    it('should allow early termination', async () => {
+      let count = 0;
+
+      for await (const page of poppler.convertIterator(samplePdfBuffer, { format: 'png', batch: true })) {
+        count++;
+        expect(page.data).toBeInstanceOf(Buffer);
+        break;
+      }
+
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('convertToStream() with batch: true', () => {
+    it('should return one stream per page', async () => {
+      const results = await poppler.convertToStream(samplePdfBuffer, { format: 'png', batch: true });
+
+      expect(results.length).toBe(totalPages);
+
+      for (const { stream } of results) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) {
+          chunks.push(chunk as Buffer);
+        }
+        expect(Buffer.concat(chunks).length).toBeGreaterThan(0);
+      }
+    });
+  });
+});
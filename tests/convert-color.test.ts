@@ -0,0 +1,128 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { PdfPoppler, PdfPopplerError } from 'pdf-poppler-core';
+
+describe('Color Modes', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  // PNG bit depth and color type are stored in the IHDR chunk
+  const pngBitDepth = (data: Buffer) => data[24];
+  const pngColorType = (data: Buffer) => data[25];
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe("color: 'gray'", () => {
+    it('should render 8-bit grayscale PNG', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, { page: 1, scale: 200, color: 'gray' });
+
+      expect(pngBitDepth(page.data)).toBe(8);
+      expect(pngColorType(page.data)).toBe(0);
+    });
+
+    it('should reject vector formats', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { page: 1, format: 'svg', color: 'gray' })
+      ).rejects.toThrow(PdfPopplerError);
+    });
+  });
+
+  describe("color: 'mono'", () => {
+    it('should render dithered 1-bit PNG', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, { page: 1, scale: 200, color: 'mono' });
+
+      expect(pngBitDepth(page.data)).toBe(1);
+    });
+
+    it('should apply a threshold', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, {
+        page: 1,
+        scale: 200,
+        color: 'mono',
+        threshold: 128,
+      });
+
+      expect(page.data.subarray(0, 4).toString('hex')).toBe('89504e47');
+      expect(pngBitDepth(page.data)).toBe(1);
+      expect(pngColorType(page.data)).toBe(0);
+
+      // Scanlines: filter byte plus one bit per pixel
+      const width = page.data.readUInt32BE(16);
+      const height = page.data.readUInt32BE(20);
+      const idat = page.data.subarray(41, 41 + page.data.readUInt32BE(33));
+      expect(zlib.inflateSync(idat).length).toBe(height * (1 + Math.ceil(width / 8)));
+    });
+
+    it('should write thresholded PBM and TIFF', async () => {
+      const [pbm] = await poppler.convert(samplePdfBuffer, {
+        page: 1,
+        scale: 100,
+        format: 'pbm',
+        color: 'mono',
+        threshold: 200,
+      });
+      const [tiff] = await poppler.convert(samplePdfBuffer, {
+        page: 1,
+        scale: 100,
+        format: 'tiff',
+        color: 'mono',
+        threshold: 200,
+      });
+
+      expect(pbm.data.subarray(0, 2).toString()).toBe('P4');
+      expect(tiff.data.subarray(0, 4)).toEqual(Buffer.from([0x49, 0x49, 0x2a, 0x00]));
+    });
+
+    it('should apply a threshold to streams', async () => {
+      const [{ stream }] = await poppler.convertToStream(samplePdfBuffer, {
+        page: 1,
+        scale: 100,
+        format: 'pbm',
+        color: 'mono',
+        threshold: 128,
+      });
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+
+      expect(Buffer.concat(chunks).subarray(0, 2).toString()).toBe('P4');
+    });
+
+    it('should reject invalid thresholds', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { page: 1, color: 'mono', threshold: 256 })
+      ).rejects.toThrow('Invalid threshold');
+      await expect(
+        poppler.convert(samplePdfBuffer, { page: 1, format: 'jpeg', color: 'mono', threshold: 128 })
+      ).rejects.toThrow(PdfPopplerError);
+    });
+  });
+
+  describe("color: 'cmyk'", () => {
+    it('should render CMYK JPEG', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, { page: 1, format: 'jpeg', color: 'cmyk' });
+
+      expect(page.data[0]).toBe(0xff);
+      expect(page.data[1]).toBe(0xd8);
+    });
+
+    it('should reject other formats', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { page: 1, format: 'png', color: 'cmyk' })
+      ).rejects.toThrow(PdfPopplerError);
+    });
+  });
+
+  it('should reject unknown color modes', async () => {
+    await expect(
+      poppler.convert(samplePdfBuffer, { page: 1, color: 'sepia' as any })
+    ).rejects.toThrow('Invalid color mode');
+  });
+});
@@ -0,0 +1,116 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { PdfPoppler, PageResult, PdfPopplerError } from 'pdf-poppler-core';
+
+describe('Concurrent Rendering', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  beforeAll(async () => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+
+    // Warmup
+    try {
+      await poppler.convert(samplePdfBuffer, { format: 'png', page: 1 });
+    } catch (e) {
+      // Ignore warmup errors
+    }
+  }, 15000);
+
+  describe('Configuration', () => {
+    it('should default instance concurrency to 1', () => {
+      expect(new PdfPoppler().getConfig().concurrency).toBe(1);
+    });
+
+    it('should accept instance concurrency from config', () => {
+      expect(new PdfPoppler({ concurrency: 4 }).getConfig().concurrency).toBe(4);
+    });
+
+    it('should accept concurrency from the builder', () => {
+      const config = PdfPoppler.configure().withConcurrency(8).build();
+      expect(new PdfPoppler(config).getConfig().concurrency).toBe(8);
+    });
+
+    it('should reject invalid instance concurrency', () => {
+      expect(() => new PdfPoppler({ concurrency: 0 })).toThrow(PdfPopplerError);
+      expect(() => new PdfPoppler({ concurrency: 1.5 })).toThrow(PdfPopplerError);
+    });
+  });
+
+  describe('convert() with concurrency', () => {
+    it('should return pages in order', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, { format: 'png', concurrency: 4 });
+      const info = await poppler.info(samplePdfBuffer);
+
+      expect(pages.map(p => p.page)).toEqual(
+        Array.from({ length: parseInt(info.pages, 10) }, (_, i) => i + 1)
+      );
+    });
+
+    it('should produce the same output as sequential rendering', async () => {
+      const sequential = await poppler.convert(samplePdfBuffer, { format: 'png', concurrency: 1 });
+      const parallel = await poppler.convert(samplePdfBuffer, { format: 'png', concurrency: 4 });
+
+      expect(parallel.map(p => p.data.length)).toEqual(sequential.map(p => p.data.length));
+    });
+
+    it('should keep requested order even with as-completed mode', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, {
+        format: 'png',
+        concurrency: 4,
+        order: 'as-completed',
+      });
+
+      pages.forEach((page, index) => {
+        expect(page.page).toBe(index + 1);
+      });
+    });
+
+    it('should use the instance default concurrency', async () => {
+      const parallelPoppler = new PdfPoppler({ concurrency: 2 });
+      const pages = await parallelPoppler.convert(samplePdfBuffer, { format: 'png' });
+
+      expect(pages.length).toBeGreaterThan(0);
+    });
+
+    it('should reject invalid concurrency option', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { concurrency: -1 })
+      ).rejects.toThrow(PdfPopplerError);
+    });
+  });
+
+  describe('convertIterator() with concurrency', () => {
+    it('should yield all pages in as-completed mode', async () => {
+      const pages: PageResult[] = [];
+
+      for await (const page of poppler.convertIterator(samplePdfBuffer, {
+        format: 'png',
+        concurrency: 4,
+        order: 'as-completed',
+      })) {
+        pages.push(page);
+      }
+
+      const info = await poppler.info(samplePdfBuffer);
+      expect(pages.map(p => p.page).sort((a, b) => a - b)).toEqual(
+        Array.from({ length: parseInt(info.pages, 10) }, (_, i) => i + 1)
+      );
+    });
+
+    it('should allow early termination', async () => {
+      let count = 0;
+
+      for await (const page of poppler.convertIterator(samplePdfBuffer, { format: 'png', concurrency: 4 })) {
+        count++;
+        expect(page.data).toBeInstanceOf(Buffer);
+        break;
+      }
+
+      expect(count).toBe(1);
+    });
+  });
+});
@@ -61,6 +61,43 @@ describe('Enhanced ConvertOptions', () => {
     });
   });
 
+  describe('fit option', () => {
+    // PNG width and height are stored in the IHDR chunk
+    const pngSize = (data: Buffer) => ({ width: data.readUInt32BE(16), height: data.readUInt32BE(20) });
+
+    it('should fit each page inside the given size', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, {
+        format: 'png',
+        fit: { width: 300, height: 200 }
+      });
+      const geometry = await poppler.pageInfo(samplePdfBuffer);
+
+      expect(pages.length).toBe(geometry.length);
+      pages.forEach(({ data }, i) => {
+        const { width, height } = pngSize(data);
+        expect(width).toBeLessThanOrEqual(300);
+        expect(height).toBeLessThanOrEqual(200);
+        expect(width === 300 || height === 200).toBe(true);
+        // Aspect ratio of the page is kept
+        expect(width / height).toBeCloseTo(geometry[i].width / geometry[i].height, 1);
+      });
+    });
+
+    it('should produce the same sizes in batch mode', async () => {
+      const options = { format: 'png' as const, fit: { width: 300, height: 200 } };
+      const pages = await poppler.convert(samplePdfBuffer, options);
+      const batch = await poppler.convert(samplePdfBuffer, { ...options, batch: true });
+
+      expect(batch.map(p => pngSize(p.data))).toEqual(pages.map(p => pngSize(p.data)));
+    });
+
+    it('should reject invalid sizes', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { format: 'png', page: 1, fit: { width: 0, height: 100 } })
+      ).rejects.toThrow('Invalid fit size');
+    });
+  });
+
   describe('quality option (JPEG)', () => {
     it('should control JPEG quality', async () => {
       const lowQuality = await poppler.convert(samplePdfBuffer, {
@@ -0,0 +1,87 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { PdfPoppler, PdfPopplerError } from 'pdf-poppler-core';
+
+/** Read width and height from a PNG IHDR chunk */
+function pngSize(data: Buffer): { width: number; height: number } {
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+describe('Region Rendering', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe('convert() with region', () => {
+    it('should render a region given in points at the requested dpi', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, {
+        format: 'png',
+        page: 1,
+        dpi: 144,
+        region: { x: 0, y: 0, width: 72, height: 36 },
+      });
+
+      // 72 x 36 pt at 144 DPI = 144 x 72 px
+      expect(pngSize(page.data)).toEqual({ width: 144, height: 72 });
+    });
+
+    it('should render a region given in pixels', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, {
+        format: 'png',
+        page: 1,
+        region: { x: 10, y: 10, width: 50, height: 40, unit: 'px' },
+      });
+
+      expect(pngSize(page.data)).toEqual({ width: 50, height: 40 });
+    });
+
+    it('should reject invalid regions', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { page: 1, region: { x: 0, y: 0, width: 0, height: 10 } })
+      ).rejects.toThrow(PdfPopplerError);
+    });
+  });
+
+  describe('renderRegion()', () => {
+    it('should return a single image', async () => {
+      const data = await poppler.renderRegion(
+        samplePdfBuffer,
+        1,
+        { x: 0, y: 0, width: 100, height: 50 },
+        { format: 'png', dpi: 72 }
+      );
+
+      expect(data).toBeInstanceOf(Buffer);
+      expect(pngSize(data)).toEqual({ width: 100, height: 50 });
+    });
+
+    it('should accept bounding boxes from textLayout()', async () => {
+      const data = await poppler.renderRegion(
+        samplePdfBuffer,
+        1,
+        { xMin: 10, yMin: 20, xMax: 110, yMax: 70 },
+        { format: 'png', dpi: 72 }
+      );
+
+      expect(pngSize(data)).toEqual({ width: 100, height: 50 });
+    });
+
+    it('should support JPEG output', async () => {
+      const data = await poppler.renderRegion(
+        samplePdfBuffer,
+        1,
+        { x: 0, y: 0, width: 100, height: 50 },
+        { format: 'jpeg' }
+      );
+
+      // JPEG magic bytes
+      expect(data.subarray(0, 2).toString('hex')).toBe('ffd8');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { PdfPoppler, PdfPopplerError } from 'pdf-poppler-core';
+
+describe('Splash Renderer', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  // PNG width is stored in the IHDR chunk
+  const pngWidth = (data: Buffer) => data.readUInt32BE(16);
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe("convert() with renderer: 'splash'", () => {
+    it('should render PNG with pdftoppm', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, { format: 'png', page: 1, renderer: 'splash' });
+
+      expect(pages.length).toBe(1);
+      expect(pages[0].data.subarray(0, 4).toString('hex')).toBe('89504e47');
+    });
+
+    it('should produce the same size as the cairo renderer', async () => {
+      const [cairo] = await poppler.convert(samplePdfBuffer, { format: 'png', page: 1, scale: 300 });
+      const [splash] = await poppler.convert(samplePdfBuffer, {
+        format: 'png',
+        page: 1,
+        scale: 300,
+        renderer: 'splash',
+      });
+
+      expect(pngWidth(splash.data)).toBe(pngWidth(cairo.data));
+    });
+
+    it('should render JPEG with splash options', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, {
+        format: 'jpeg',
+        page: 1,
+        renderer: 'splash',
+        antialias: 'none',
+        aaVector: false,
+        thinLineMode: 'solid',
+        freetype: true,
+      });
+
+      expect(pages[0].data[0]).toBe(0xff);
+      expect(pages[0].data[1]).toBe(0xd8);
+    });
+
+    it('should support batch rendering', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, { format: 'png', renderer: 'splash', batch: true });
+      const info = await poppler.info(samplePdfBuffer);
+
+      expect(pages.map(p => p.page)).toEqual(
+        Array.from({ length: parseInt(info.pages, 10) }, (_, i) => i + 1)
+      );
+    });
+
+    it('should use the instance default renderer', async () => {
+      const splashPoppler = new PdfPoppler({ renderer: 'splash' });
+      const pages = await splashPoppler.convert(samplePdfBuffer, { format: 'png', page: 1 });
+
+      expect(pages[0].data.subarray(0, 4).toString('hex')).toBe('89504e47');
+    });
+
+    it('should reject vector formats', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { format: 'svg', page: 1, renderer: 'splash' })
+      ).rejects.toThrow(PdfPopplerError);
+    });
+
+    it('should reject unknown renderers', async () => {
+      await expect(
+        poppler.convert(samplePdfBuffer, { page: 1, renderer: 'gpu' as any })
+      ).rejects.toThrow('Invalid renderer');
+      expect(() => new PdfPoppler({ renderer: 'gpu' as any })).toThrow('Invalid renderer');
+    });
+  });
+
+  describe('raw output formats', () => {
+    it('should write PPM', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, { format: 'ppm', page: 1, scale: 100 });
+
+      expect(page.data.subarray(0, 2).toString()).toBe('P6');
+    });
+
+    it('should write 8-bit gray PGM', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, { format: 'pgm', page: 1, scale: 100 });
+
+      expect(page.data.subarray(0, 2).toString()).toBe('P5');
+    });
+
+    it('should write 1-bit PBM', async () => {
+      const [page] = await poppler.convert(samplePdfBuffer, { format: 'pbm', page: 1, scale: 100 });
+
+      expect(page.data.subarray(0, 2).toString()).toBe('P4');
+    });
+  });
+});
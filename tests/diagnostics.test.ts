@@ -0,0 +1,37 @@
+import { parseDiagnostics } from 'pdf-poppler-core';
+
+describe('Diagnostics', () => {
+  describe('parseDiagnostics()', () => {
+    it('should parse poppler error categories and offsets', () => {
+      const stderr = [
+        'Syntax Error (1234): Illegal character <2f> in hex string',
+        'Syntax Warning: May not be a PDF file (continuing anyway)',
+        'Internal Error (-1): xref broken',
+      ].join('\n');
+
+      expect(parseDiagnostics(stderr)).toEqual([
+        { level: 'error', code: 'syntax-error', offset: 1234, message: 'Illegal character <2f> in hex string' },
+        { level: 'warning', code: 'syntax-warning', message: 'May not be a PDF file (continuing anyway)' },
+        { level: 'error', code: 'internal-error', message: 'xref broken' },
+      ]);
+    });
+
+    it('should report font substitutions as warnings', () => {
+      expect(parseDiagnostics("Syntax Error: Couldn't find a font for 'Helvetica'")).toEqual([
+        { level: 'warning', code: 'font-substitution', message: "Couldn't find a font for 'Helvetica'" },
+      ]);
+    });
+
+    it('should keep other lines and skip empty ones', () => {
+      expect(parseDiagnostics('\nFontconfig warning: no <cachedir> elements found\n\n')).toEqual([
+        { level: 'warning', code: 'other', message: 'Fontconfig warning: no <cachedir> elements found' },
+      ]);
+    });
+
+    it('should add the page when given', () => {
+      const [diagnostic] = parseDiagnostics('I/O Error: Couldn\'t read image data', 3);
+
+      expect(diagnostic).toMatchObject({ level: 'error', code: 'io-error', page: 3 });
+    });
+  });
+});
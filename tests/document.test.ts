@@ -0,0 +1,108 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { PdfPoppler, PdfDocument, PdfPopplerError, PageResult } from 'pdf-poppler-core';
+
+describe('Document Handle', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe('poppler.open()', () => {
+    it('should return a PdfDocument', async () => {
+      const doc = await poppler.open(samplePdfBuffer);
+      try {
+        expect(doc).toBeInstanceOf(PdfDocument);
+        expect(doc.isClosed).toBe(false);
+      } finally {
+        await doc.close();
+      }
+    });
+
+    it('should accept a stream input', async () => {
+      const stream = fs.createReadStream(samplePdfPath);
+      const doc = await poppler.open(stream);
+      try {
+        expect(doc).toBeInstanceOf(PdfDocument);
+      } finally {
+        await doc.close();
+      }
+    });
+  });
+
+  describe('operations', () => {
+    let doc: PdfDocument;
+
+    beforeAll(async () => {
+      doc = await poppler.open(samplePdfBuffer);
+    });
+
+    afterAll(async () => {
+      await doc.close();
+    });
+
+    it('should cache pdfinfo results', async () => {
+      const first = await doc.info();
+      const second = await doc.info();
+
+      expect(second).toBe(first);
+      expect(await doc.pageCount()).toBe(parseInt(first.pages, 10));
+    });
+
+    it('should match the results of the buffer API', async () => {
+      const expected = await poppler.text(samplePdfBuffer, { page: 1 });
+      expect(await doc.text({ page: 1 })).toBe(expected);
+    });
+
+    it('should convert pages', async () => {
+      const pages = await doc.convert({ format: 'png', page: 1 });
+
+      expect(pages.length).toBe(1);
+      expect(pages[0].data.subarray(0, 4).toString('hex')).toBe('89504e47');
+    });
+
+    it('should support convertIterator()', async () => {
+      const pages: PageResult[] = [];
+      for await (const page of doc.convertIterator({ format: 'jpeg', pages: [1] })) {
+        pages.push(page);
+      }
+
+      expect(pages.map(p => p.page)).toEqual([1]);
+    });
+  });
+
+  describe('close()', () => {
+    it('should be safe to call more than once', async () => {
+      const doc = await poppler.open(samplePdfBuffer);
+
+      await doc.close();
+      await doc.close();
+
+      expect(doc.isClosed).toBe(true);
+    });
+
+    it('should reject operations after close', async () => {
+      const doc = await poppler.open(samplePdfBuffer);
+      await doc.close();
+
+      await expect(doc.info()).rejects.toThrow(PdfPopplerError);
+      await expect(doc.convert()).rejects.toThrow('Document is closed');
+      await expect(doc.convertIterator().next()).rejects.toThrow('Document is closed');
+    });
+
+    it('should not affect other documents opened from the same buffer', async () => {
+      const first = await poppler.open(samplePdfBuffer);
+      const second = await poppler.open(samplePdfBuffer);
+
+      await first.close();
+
+      expect(second.isClosed).toBe(false);
+      await second.close();
+    });
+  });
+});
@@ -5,8 +5,18 @@ import {
   PdfPopplerError,
   InvalidPdfError,
   EncryptedPdfError,
+  IncorrectPasswordError,
   PageOutOfRangeError,
   BinaryNotFoundError,
+  BinaryNotExecutableError,
+  TempDirectoryError,
+  ProcessTimeoutError,
+  ProcessCrashedError,
+  OutputLimitExceededError,
+  ErrorRule,
+  ErrorRuleContext,
+  DEFAULT_ERROR_RULES,
+  classifyError,
 } from 'pdf-poppler-core';
 
 describe('Custom Error Types', () => {
@@ -98,6 +108,135 @@ describe('Custom Error Types', () => {
     });
   });
 
+  describe('IncorrectPasswordError', () => {
+    it('should be an EncryptedPdfError', () => {
+      const error = new IncorrectPasswordError();
+      expect(error.name).toBe('IncorrectPasswordError');
+      expect(error).toBeInstanceOf(EncryptedPdfError);
+      expect(error).toBeInstanceOf(PdfPopplerError);
+    });
+
+    it('should not ask the password provider for valid PDFs without a password', async () => {
+      const passwordProvider = jest.fn(async () => 'secret');
+      const withProvider = new PdfPoppler({ passwordProvider });
+
+      await withProvider.info(samplePdfBuffer);
+      expect(passwordProvider).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Process errors', () => {
+    const details = {
+      binary: 'pdftocairo',
+      args: ['-upw', '***', '-png', '-'],
+      exitCode: null,
+      signal: 'SIGKILL' as NodeJS.Signals,
+      durationMs: 1200,
+      stdoutBytes: 0,
+    };
+
+    it('should describe the process in the message', () => {
+      expect(new ProcessTimeoutError(1000, '', details).message).toBe('pdftocairo timed out after 1000 ms');
+      expect(new ProcessCrashedError('', details).message).toBe('pdftocairo was killed by SIGKILL');
+      expect(new OutputLimitExceededError(1024, '', details).message).toContain('maxBuffer of 1024 bytes');
+    });
+
+    it('should serialize the process details with toJSON()', () => {
+      const error = new ProcessCrashedError('out of memory', details);
+
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        name: 'ProcessCrashedError',
+        message: 'pdftocairo was killed by SIGKILL',
+        stderr: 'out of memory',
+        ...details,
+      });
+    });
+
+    it('should record the operation and redact passwords', async () => {
+      try {
+        await poppler.info(Buffer.from('not a pdf file'), { password: 'secret' });
+        fail('Expected an error to be thrown');
+      } catch (e) {
+        const error = e as PdfPopplerError;
+        expect(error.operation).toBe('info');
+        expect(error.binary).toBe('pdfinfo');
+        expect(error.args).toContain('***');
+        expect(JSON.stringify(error)).not.toContain('secret');
+      }
+    });
+  });
+
+  describe('Error rules', () => {
+    const failure = (context: Partial<ErrorRuleContext>): ErrorRuleContext => ({
+      hasPassword: false,
+      stderr: '',
+      error: new Error('failed'),
+      details: {},
+      ...context,
+    });
+
+    it('should not treat permission messages as encrypted PDFs', () => {
+      const error = classifyError(
+        failure({ binary: 'pdftocairo', exitCode: 99, stderr: "I/O Error: Couldn't open font file: Permission denied" })
+      );
+      expect(error).toBeUndefined();
+    });
+
+    it('should classify by binary and exit code', () => {
+      expect(classifyError(failure({ binary: 'pdftocairo', exitCode: 1 }))).toBeInstanceOf(InvalidPdfError);
+      expect(classifyError(failure({ binary: 'pdftocairo', exitCode: 2 }))).toBeInstanceOf(TempDirectoryError);
+      expect(classifyError(failure({ binary: 'pdftocairo', exitCode: 3 }))).toBeInstanceOf(EncryptedPdfError);
+      expect(classifyError(failure({ binary: 'pdfunite', exitCode: 1 }))).toBeUndefined();
+    });
+
+    it('should tell a rejected password from a missing one', () => {
+      const stderr = 'Command Line Error: Incorrect password';
+      expect(classifyError(failure({ binary: 'pdfinfo', exitCode: 1, stderr }))).not.toBeInstanceOf(
+        IncorrectPasswordError
+      );
+      expect(
+        classifyError(failure({ binary: 'pdfinfo', exitCode: 1, stderr, hasPassword: true }))
+      ).toBeInstanceOf(IncorrectPasswordError);
+    });
+
+    it('should classify binaries that cannot be run', () => {
+      const spawnFailure = (errorCode: string) =>
+        failure({ binary: 'pdfinfo', errorCode, syscall: 'spawn /opt/poppler/pdfinfo', path: '/opt/poppler/pdfinfo' });
+
+      expect(classifyError(spawnFailure('ENOENT'))).toBeInstanceOf(BinaryNotFoundError);
+      const error = classifyError(spawnFailure('EACCES')) as BinaryNotExecutableError;
+      expect(error).toBeInstanceOf(BinaryNotExecutableError);
+      expect(error.path).toBe('/opt/poppler/pdfinfo');
+    });
+
+    it('should not treat shared library failures as invalid PDFs', () => {
+      const stderr =
+        "pdftocairo: /lib/x86_64-linux-gnu/libcrypto.so.3: version `OPENSSL_3.0.1' not found (required by libpoppler.so.126)";
+      const error = classifyError(failure({ binary: 'pdftocairo', exitCode: 1, stderr }));
+      expect(error).toBeInstanceOf(BinaryNotExecutableError);
+      expect(error?.stderr).toBe(stderr);
+    });
+
+    it('should classify temp file failures', () => {
+      const error = classifyError(failure({ errorCode: 'ENOSPC', syscall: 'write', path: '/tmp/out.pdf' }));
+      expect(error).toBeInstanceOf(TempDirectoryError);
+      expect((error as TempDirectoryError).path).toBe('/tmp/out.pdf');
+    });
+
+    it('should try custom rules first', () => {
+      const rule: ErrorRule = {
+        name: 'font-permissions',
+        stderr: /permission denied/i,
+        create: ({ stderr }) => new PdfPopplerError('Font not readable', stderr),
+      };
+      const error = classifyError(failure({ binary: 'pdftocairo', exitCode: 1, stderr: 'Permission denied' }), [
+        rule,
+        ...DEFAULT_ERROR_RULES,
+      ]);
+      expect(error?.message).toBe('Font not readable');
+    });
+  });
+
   describe('BinaryNotFoundError', () => {
     it('should have correct error name', () => {
       const error = new BinaryNotFoundError('pdfinfo');
@@ -0,0 +1,186 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { PdfPoppler, ExtractedImage, PageOutOfRangeError } from 'pdf-poppler-core';
+
+/**
+ * Build a PDF with one RGB image per page, each page's image as many pixels
+ * wide as its page number
+ */
+function createImagePdf(pageCount: number): Buffer {
+  const objects: string[] = ['<< /Type /Catalog /Pages 2 0 R >>'];
+  const kids: string[] = [];
+
+  for (let page = 1; page <= pageCount; page++) {
+    const pageId = objects.length + 2;
+    kids.push(`${pageId} 0 R`);
+    const content = 'q 50 0 0 50 10 10 cm /Im0 Do Q';
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 100 100] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      `<< /Type /XObject /Subtype /Image /Width ${page} /Height 1 /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Length ${page * 3} >>\nstream\n${'x'.repeat(page * 3)}\nendstream`
+    );
+  }
+  objects.splice(1, 0, `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${pageCount} >>`);
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('Embedded Image Extraction', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe('extractImages()', () => {
+    it('should return an array', async () => {
+      const images = await poppler.extractImages(samplePdfBuffer);
+      expect(Array.isArray(images)).toBe(true);
+    });
+
+    it('should return one entry per listed image', async () => {
+      const listed = await poppler.listImages(samplePdfBuffer);
+      const images = await poppler.extractImages(samplePdfBuffer);
+
+      expect(images.length).toBe(listed.length);
+    });
+
+    it('should return image buffers with metadata', async () => {
+      const images = await poppler.extractImages(samplePdfBuffer);
+
+      images.forEach(image => {
+        expect(image.page).toBeGreaterThan(0);
+        expect(typeof image.num).toBe('number');
+        expect(typeof image.name).toBe('string');
+        expect(typeof image.format).toBe('string');
+        expect(image.data).toBeInstanceOf(Buffer);
+        expect(image.data.length).toBeGreaterThan(0);
+        expect(parseInt(image.meta.num, 10)).toBe(image.num);
+        expect(parseInt(image.meta.page, 10)).toBe(image.page);
+      });
+    });
+
+    it('should write PNG data when format is png', async () => {
+      const images = await poppler.extractImages(samplePdfBuffer, { format: 'png' });
+
+      images.forEach(image => {
+        expect(image.format).toBe('png');
+        // PNG magic bytes
+        expect(image.data.subarray(0, 4).toString('hex')).toBe('89504e47');
+      });
+    });
+
+    it('should filter by minimum size', async () => {
+      const images = await poppler.extractImages(samplePdfBuffer, {
+        minWidth: 100000,
+        minHeight: 100000,
+      });
+
+      expect(images).toEqual([]);
+    });
+
+    it('should filter by pages', async () => {
+      const images = await poppler.extractImages(samplePdfBuffer, { pages: [1] });
+
+      images.forEach(image => {
+        expect(image.page).toBe(1);
+      });
+    });
+
+    it('should accept Uint8Array and Readable stream input', async () => {
+      const fromUint8 = await poppler.extractImages(new Uint8Array(samplePdfBuffer));
+      expect(Array.isArray(fromUint8)).toBe(true);
+
+      const fromStream = await poppler.extractImages(Readable.from(samplePdfBuffer));
+      expect(Array.isArray(fromStream)).toBe(true);
+    });
+  });
+
+  describe('multi-page documents', () => {
+    const imagePdf = createImagePdf(3);
+
+    it('should match images to their metadata when earlier pages are filtered out', async () => {
+      const images = await poppler.extractImages(imagePdf, { pages: [2, 3] });
+
+      expect(images.map(image => image.page)).toEqual([2, 3]);
+      expect(images.map(image => image.num)).toEqual([1, 2]);
+      images.forEach(image => {
+        expect(image.meta.page).toBe(String(image.page));
+        expect(image.meta.width).toBe(String(image.page));
+      });
+    });
+
+    it('should yield the images of every page from the iterator', async () => {
+      const iterated: ExtractedImage[] = [];
+
+      for await (const image of poppler.extractImagesIterator(imagePdf)) {
+        iterated.push(image);
+      }
+
+      expect(iterated.map(image => [image.page, image.num, image.meta.width])).toEqual([
+        [1, 0, '1'],
+        [2, 1, '2'],
+        [3, 2, '3'],
+      ]);
+    });
+  });
+
+  describe('extractImagesIterator()', () => {
+    it('should yield the same images as extractImages()', async () => {
+      const images = await poppler.extractImages(samplePdfBuffer);
+      const iterated: ExtractedImage[] = [];
+
+      for await (const image of poppler.extractImagesIterator(samplePdfBuffer)) {
+        iterated.push(image);
+      }
+
+      expect(iterated.map(i => i.num)).toEqual(images.map(i => i.num));
+    });
+
+    it('should allow early termination', async () => {
+      let count = 0;
+
+      for await (const image of poppler.extractImagesIterator(samplePdfBuffer)) {
+        count++;
+        expect(image.data).toBeInstanceOf(Buffer);
+        break;
+      }
+
+      expect(count).toBeLessThanOrEqual(1);
+    });
+  });
+
+  describe('Error Handling', () => {
+    it('should throw PageOutOfRangeError for invalid pages', async () => {
+      await expect(
+        poppler.extractImages(samplePdfBuffer, { pages: [999] })
+      ).rejects.toThrow(PageOutOfRangeError);
+    });
+
+    it('should throw error for invalid PDF', async () => {
+      const invalidBuffer = Buffer.from('not a pdf file');
+      await expect(poppler.extractImages(invalidBuffer)).rejects.toThrow();
+    });
+
+    it('should throw error for null input', async () => {
+      await expect(poppler.extractImages(null as any)).rejects.toThrow();
+    });
+  });
+});
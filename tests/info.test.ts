@@ -123,6 +123,47 @@ describe('PDF Info Functionality', () => {
     });
   });
 
+  describe('poppler.pageInfo()', () => {
+    it('should return geometry for every page', async () => {
+      const info = await poppler.info(samplePdfBuffer);
+      const pages = await poppler.pageInfo(samplePdfBuffer);
+
+      expect(pages.length).toBe(parseInt(info.pages, 10));
+      pages.forEach((page, i) => {
+        expect(page.page).toBe(i + 1);
+        expect(page.width).toBeGreaterThan(0);
+        expect(page.height).toBeGreaterThan(0);
+        expect([0, 90, 180, 270]).toContain(page.rotation);
+        for (const box of [page.mediaBox, page.cropBox, page.bleedBox, page.trimBox, page.artBox]) {
+          expect(box.x2).toBeGreaterThan(box.x1);
+          expect(box.y2).toBeGreaterThan(box.y1);
+        }
+      });
+    });
+
+    it('should match info() for the first page', async () => {
+      const info = await poppler.info(samplePdfBuffer);
+      const [first] = await poppler.pageInfo(samplePdfBuffer, 1);
+
+      expect(first.page).toBe(1);
+      if (first.rotation % 180 === 0) {
+        expect(first.width).toBeCloseTo(info.width_in_pts, 1);
+        expect(first.height).toBeCloseTo(info.height_in_pts, 1);
+      }
+    });
+
+    it('should return selected pages in selection order', async () => {
+      const pages = await poppler.pageInfo(samplePdfBuffer, [-1, 1]);
+      const info = await poppler.info(samplePdfBuffer);
+
+      expect(pages.map(p => p.page)).toEqual([parseInt(info.pages, 10), 1]);
+    });
+
+    it('should throw PageOutOfRangeError for missing pages', async () => {
+      await expect(poppler.pageInfo(samplePdfBuffer, 999)).rejects.toThrow('out of range');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should provide meaningful error messages', async () => {
       const invalidBuffer = Buffer.from('invalid pdf content');
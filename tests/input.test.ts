@@ -0,0 +1,144 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { Readable } from 'stream';
+import { PdfPoppler, InputTooLargeError, InvalidPdfError } from 'pdf-poppler-core';
+
+describe('Input Handling', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  // Temp files created by the library
+  const listTempFiles = () => fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('pdf-poppler-input'));
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe('file paths', () => {
+    it('should give the same result as the file contents', async () => {
+      expect(await poppler.info(samplePdfPath)).toEqual(await poppler.info(samplePdfBuffer));
+    });
+
+    it('should reject missing files', async () => {
+      await expect(poppler.info('/nonexistent/file.pdf')).rejects.toThrow(InvalidPdfError);
+    });
+  });
+
+  describe('streams', () => {
+    it('should give the same result as the stream contents', async () => {
+      const text = await poppler.text(fs.createReadStream(samplePdfPath));
+
+      expect(text).toBe(await poppler.text(samplePdfBuffer));
+    });
+
+    it('should remove the spooled temp file afterwards', async () => {
+      const before = listTempFiles();
+      await poppler.info(fs.createReadStream(samplePdfPath));
+
+      expect(listTempFiles()).toEqual(before);
+    });
+  });
+
+  describe('sniff()', () => {
+    it('should detect PDFs with their version', async () => {
+      const result = await poppler.sniff(samplePdfPath);
+
+      expect(result.type).toBe('pdf');
+      expect(result.version).toMatch(/^\d\.\d$/);
+      expect(result.truncated).toBe(false);
+      expect(await poppler.sniff(samplePdfBuffer)).toEqual(result);
+    });
+
+    it('should allow garbage before the header', async () => {
+      const result = await poppler.sniff(Buffer.concat([Buffer.alloc(100), samplePdfBuffer]));
+
+      expect(result.type).toBe('pdf');
+      expect(result.headerOffset).toBe(100);
+    });
+
+    it('should detect common formats that are not PDFs', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+      const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0]);
+      const zip = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('\0[Content_Types].xml')]);
+      const docx = Buffer.concat([zip, Buffer.from('\0word/document.xml')]);
+      const html = Buffer.from('<!DOCTYPE html>\n<html><body>502 Bad Gateway</body></html>');
+
+      expect((await poppler.sniff(png)).type).toBe('png');
+      expect((await poppler.sniff(jpeg)).type).toBe('jpeg');
+      expect((await poppler.sniff(zip)).type).toBe('zip');
+      expect((await poppler.sniff(docx)).type).toBe('docx');
+      expect((await poppler.sniff(html)).type).toBe('html');
+      expect((await poppler.sniff(Buffer.alloc(0))).type).toBe('empty');
+      expect((await poppler.sniff(Buffer.from('hello'))).type).toBe('unknown');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject other formats before running poppler', async () => {
+      const html = Buffer.from('<html><body>Not Found</body></html>');
+
+      const error = await poppler.info(html).catch(e => e);
+
+      expect(error).toBeInstanceOf(InvalidPdfError);
+      expect(error.detectedType).toBe('html');
+      expect(error.binary).toBeUndefined();
+    });
+
+    it('should report truncated PDFs without rejecting them', async () => {
+      const truncated = samplePdfBuffer.subarray(0, samplePdfBuffer.length - 2048);
+
+      expect((await poppler.sniff(truncated)).truncated).toBe(true);
+      // Left to poppler, which may repair the file or fail on it
+      const result = await poppler.text(truncated).catch(error => error);
+      expect(result.detectedType).toBeUndefined();
+    });
+
+    it('should accept PDFs with data after %%EOF', async () => {
+      const trailing = Buffer.concat([samplePdfBuffer, Buffer.alloc(4096, 'x')]);
+
+      expect((await poppler.sniff(trailing)).truncated).toBe(false);
+      expect(parseInt((await poppler.info(trailing)).pages, 10)).toBeGreaterThan(0);
+    });
+
+    it('should remove spooled streams it rejects', async () => {
+      const before = listTempFiles();
+
+      await expect(poppler.info(Readable.from([Buffer.from('PK\x03\x04')]))).rejects.toThrow(InvalidPdfError);
+      expect(listTempFiles()).toEqual(before);
+    });
+  });
+
+  describe('maxInputBytes', () => {
+    it('should reject larger buffers and files', async () => {
+      const limited = new PdfPoppler({ maxInputBytes: 100 });
+
+      await expect(limited.info(samplePdfBuffer)).rejects.toThrow(InputTooLargeError);
+      await expect(limited.info(samplePdfPath)).rejects.toMatchObject({
+        maxInputBytes: 100,
+        size: samplePdfBuffer.length,
+      });
+    });
+
+    it('should stop reading larger streams at the limit', async () => {
+      const limited = new PdfPoppler({ maxInputBytes: 1024 });
+      let chunks = 0;
+      const endless = new Readable({
+        read() {
+          chunks++;
+          this.push(Buffer.alloc(1024));
+        },
+      });
+
+      await expect(limited.info(endless)).rejects.toThrow(InputTooLargeError);
+      expect(chunks).toBeLessThan(100);
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => new PdfPoppler({ maxInputBytes: -1 })).toThrow('Invalid maxInputBytes');
+    });
+  });
+});
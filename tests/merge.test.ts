@@ -1,5 +1,6 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import { Readable } from 'stream';
 import { PdfPoppler, InvalidPdfError } from 'pdf-poppler-core';
 
@@ -106,6 +107,33 @@ describe('PDF Merging', () => {
     });
   });
 
+  describe('merge() with merge sources', () => {
+    it('should add the selected pages of each source in order', async () => {
+      const originalPages = parseInt((await poppler.info(samplePdfBuffer)).pages, 10);
+      const merged = await poppler.merge([
+        samplePdfBuffer,
+        { input: samplePdfBuffer, pages: [1, 1] },
+      ]);
+
+      const mergedInfo = await poppler.info(merged);
+      expect(parseInt(mergedInfo.pages, 10)).toBe(originalPages + 2);
+    });
+
+    it('should merge a whole source without its bookmarks', async () => {
+      const merged = await poppler.merge([{ input: samplePdfBuffer, outline: false }]);
+
+      const mergedInfo = await poppler.info(merged);
+      const originalInfo = await poppler.info(samplePdfBuffer);
+      expect(mergedInfo.pages).toBe(originalInfo.pages);
+    });
+
+    it('should reject keeping bookmarks of a page selection', async () => {
+      await expect(
+        poppler.merge([{ input: samplePdfBuffer, pages: 1, outline: true }])
+      ).rejects.toThrow('bookmarks can only be kept');
+    });
+  });
+
   describe('mergeToStream()', () => {
     it('should return a Readable stream', async () => {
       const stream = await poppler.mergeToStream([samplePdfBuffer, samplePdfBuffer]);
@@ -122,6 +150,17 @@ describe('PDF Merging', () => {
 
       expect(result.slice(0, 5).toString()).toBe('%PDF-');
     });
+
+    it('should remove temp files when the stream closes', async () => {
+      const listTempFiles = () => fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('pdf-poppler'));
+      const before = listTempFiles();
+
+      const stream = await poppler.mergeToStream([samplePdfBuffer, samplePdfBuffer]);
+      stream.destroy();
+      await new Promise(resolve => stream.once('close', resolve));
+
+      expect(listTempFiles()).toEqual(before);
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,119 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { PdfPoppler, PdfPopplerError, PageOutOfRangeError } from 'pdf-poppler-core';
+
+/**
+ * Walk the IFD chain of a little-endian TIFF file, returning the SHORT/LONG
+ * values of each page's tags
+ */
+function readPages(tiff: Buffer): Array<Record<number, number[]>> {
+  const pages: Array<Record<number, number[]>> = [];
+  let ifd = tiff.readUInt32LE(4);
+
+  while (ifd !== 0) {
+    const count = tiff.readUInt16LE(ifd);
+    const tags: Record<number, number[]> = {};
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      const tag = tiff.readUInt16LE(entry);
+      const type = tiff.readUInt16LE(entry + 2);
+      const n = tiff.readUInt32LE(entry + 4);
+      if (type !== 3 && type !== 4) continue;
+      const size = type === 3 ? 2 : 4;
+      const at = size * n <= 4 ? entry + 8 : tiff.readUInt32LE(entry + 8);
+      tags[tag] = Array.from({ length: n }, (_, k) =>
+        type === 3 ? tiff.readUInt16LE(at + k * 2) : tiff.readUInt32LE(at + k * 4)
+      );
+    }
+    pages.push(tags);
+    ifd = tiff.readUInt32LE(ifd + 2 + count * 12);
+  }
+
+  return pages;
+}
+
+describe('Multi-Page TIFF', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+  let pageCount: number;
+
+  beforeAll(async () => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+    pageCount = parseInt((await poppler.info(samplePdfBuffer)).pages, 10);
+  });
+
+  describe('poppler.toMultiPageTiff()', () => {
+    it('should produce one TIFF with a page per PDF page', async () => {
+      const tiff = await poppler.toMultiPageTiff(samplePdfBuffer, { dpi: 72 });
+
+      expect(tiff.slice(0, 4)).toEqual(Buffer.from([0x49, 0x49, 0x2a, 0x00]));
+      const pages = readPages(tiff);
+      expect(pages).toHaveLength(pageCount);
+      pages.forEach((tags, i) => {
+        expect(tags[297]).toEqual([i, pageCount]); // PageNumber
+        expect(tags[256][0]).toBeGreaterThan(0); // ImageWidth
+      });
+    });
+
+    it('should keep the image data of each page', async () => {
+      const tiff = await poppler.toMultiPageTiff(samplePdfBuffer, { dpi: 72, pages: 1 });
+      const [tags] = readPages(tiff);
+
+      const offsets = tags[273];
+      const byteCounts = tags[279];
+      expect(offsets.length).toBe(byteCounts.length);
+      offsets.forEach((offset, i) => {
+        expect(offset + byteCounts[i]).toBeLessThanOrEqual(tiff.length);
+      });
+    });
+
+    it('should write CCITT G4 compressed 1-bit pages', async () => {
+      const tiff = await poppler.toMultiPageTiff(samplePdfBuffer, { dpi: 100, compression: 'g4' });
+      const pages = readPages(tiff);
+
+      expect(pages).toHaveLength(pageCount);
+      for (const tags of pages) {
+        expect(tags[259]).toEqual([4]); // Compression: CCITT T.6
+        expect(tags[258]).toEqual([1]); // BitsPerSample
+      }
+    });
+
+    it('should apply other compressions', async () => {
+      const tiff = await poppler.toMultiPageTiff(samplePdfBuffer, { dpi: 72, compression: 'lzw', pages: 1 });
+
+      expect(readPages(tiff)[0][259]).toEqual([5]); // Compression: LZW
+    });
+
+    it('should only include selected pages in selection order', async () => {
+      const tiff = await poppler.toMultiPageTiff(samplePdfBuffer, { dpi: 72, pages: [1, 1] });
+
+      expect(readPages(tiff)).toHaveLength(2);
+    });
+
+    it('should reject invalid options', async () => {
+      await expect(
+        poppler.toMultiPageTiff(samplePdfBuffer, { compression: 'zip' as any })
+      ).rejects.toThrow(PdfPopplerError);
+      await expect(
+        poppler.toMultiPageTiff(samplePdfBuffer, { pages: [999] })
+      ).rejects.toThrow(PageOutOfRangeError);
+    });
+  });
+
+  describe('poppler.toMultiPageTiffStream()', () => {
+    it('should stream the same file', async () => {
+      const stream = await poppler.toMultiPageTiffStream(samplePdfBuffer, { dpi: 72, compression: 'g4' });
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+
+      const tiff = Buffer.concat(chunks);
+      expect(readPages(tiff)).toHaveLength(pageCount);
+      expect(tiff).toEqual(await poppler.toMultiPageTiff(samplePdfBuffer, { dpi: 72, compression: 'g4' }));
+    });
+  });
+});
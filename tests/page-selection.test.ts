@@ -0,0 +1,127 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  PdfPoppler,
+  PdfPopplerError,
+  PageOutOfRangeError,
+  resolvePageSelection,
+} from 'pdf-poppler-core';
+
+describe('Page Selection', () => {
+  describe('resolvePageSelection()', () => {
+    it('should select all pages when no selection is given', () => {
+      expect(resolvePageSelection(undefined, 3)).toEqual([1, 2, 3]);
+      expect(resolvePageSelection([], 3)).toEqual([1, 2, 3]);
+      expect(resolvePageSelection('', 3)).toEqual([1, 2, 3]);
+    });
+
+    it('should resolve single pages and negative indexes', () => {
+      expect(resolvePageSelection(2, 5)).toEqual([2]);
+      expect(resolvePageSelection(-1, 5)).toEqual([5]);
+      expect(resolvePageSelection([1, -2, 3], 5)).toEqual([1, 4, 3]);
+    });
+
+    it('should resolve ranges', () => {
+      expect(resolvePageSelection({ first: 2, last: -2 }, 5)).toEqual([2, 3, 4]);
+      expect(resolvePageSelection({ first: 4 }, 5)).toEqual([4, 5]);
+      expect(resolvePageSelection({ last: 2 }, 5)).toEqual([1, 2]);
+    });
+
+    it('should resolve selection strings', () => {
+      expect(resolvePageSelection('1-3,7,last-2', 10)).toEqual([1, 2, 3, 7, 8]);
+      expect(resolvePageSelection('odd', 5)).toEqual([1, 3, 5]);
+      expect(resolvePageSelection('even', 5)).toEqual([2, 4]);
+      expect(resolvePageSelection('all', 3)).toEqual([1, 2, 3]);
+      expect(resolvePageSelection('last', 4)).toEqual([4]);
+      expect(resolvePageSelection('-2', 4)).toEqual([3]);
+      expect(resolvePageSelection('3-last', 5)).toEqual([3, 4, 5]);
+      expect(resolvePageSelection(' 1 , 2 - 3 ', 5)).toEqual([1, 2, 3]);
+    });
+
+    it('should run backwards ranges in reverse', () => {
+      expect(resolvePageSelection('3-1', 5)).toEqual([3, 2, 1]);
+      expect(resolvePageSelection({ first: -1, last: 3 }, 5)).toEqual([5, 4, 3]);
+    });
+
+    it('should throw PageOutOfRangeError for pages outside the document', () => {
+      expect(() => resolvePageSelection(0, 5)).toThrow(PageOutOfRangeError);
+      expect(() => resolvePageSelection(6, 5)).toThrow(PageOutOfRangeError);
+      expect(() => resolvePageSelection(-6, 5)).toThrow(PageOutOfRangeError);
+      expect(() => resolvePageSelection([1, 9], 5)).toThrow(PageOutOfRangeError);
+      expect(() => resolvePageSelection('2-8', 5)).toThrow(PageOutOfRangeError);
+      expect(() => resolvePageSelection('last-5', 5)).toThrow(PageOutOfRangeError);
+      expect(() => resolvePageSelection({ first: 0 }, 5)).toThrow(PageOutOfRangeError);
+    });
+
+    it('should include the page and page count in the error', () => {
+      try {
+        resolvePageSelection('7', 5);
+        fail('Expected an error to be thrown');
+      } catch (e) {
+        expect(e).toBeInstanceOf(PageOutOfRangeError);
+        expect((e as PageOutOfRangeError).page).toBe(7);
+        expect((e as PageOutOfRangeError).totalPages).toBe(5);
+      }
+    });
+
+    it('should reject malformed selections', () => {
+      expect(() => resolvePageSelection('1-3,x', 5)).toThrow(PdfPopplerError);
+      expect(() => resolvePageSelection('1--', 5)).toThrow(PdfPopplerError);
+      expect(() => resolvePageSelection(1.5, 5)).toThrow(PdfPopplerError);
+      expect(() => resolvePageSelection('1-3,x', 5)).not.toThrow(PageOutOfRangeError);
+    });
+  });
+
+  describe('operations', () => {
+    const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+    let poppler: PdfPoppler;
+    let samplePdfBuffer: Buffer;
+
+    beforeAll(() => {
+      expect(fs.existsSync(samplePdfPath)).toBe(true);
+      poppler = new PdfPoppler();
+      samplePdfBuffer = fs.readFileSync(samplePdfPath);
+    });
+
+    it('should convert pages selected by a string', async () => {
+      const pages = await poppler.convert(samplePdfBuffer, { format: 'png', pages: 'last' });
+      const info = await poppler.info(samplePdfBuffer);
+
+      expect(pages.map(p => p.page)).toEqual([parseInt(info.pages, 10)]);
+    });
+
+    it('should honor pages in convertToStream()', async () => {
+      const results = await poppler.convertToStream(samplePdfBuffer, { format: 'png', pages: [1] });
+
+      expect(results.map(r => r.page)).toEqual([1]);
+      results.forEach(({ stream }) => stream.destroy());
+    });
+
+    it('should split only the selected pages', async () => {
+      const pages = await poppler.split(samplePdfBuffer, { pages: [1] });
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0].page).toBe(1);
+    });
+
+    it('should extract text from the selected pages', async () => {
+      const pages = await poppler.textPages(samplePdfBuffer, { pages: '1' });
+
+      expect(pages.map(p => p.page)).toEqual([1]);
+    });
+
+    it('should list fonts of the selected pages', async () => {
+      const fonts = await poppler.listFonts(samplePdfBuffer, { pages: 1 });
+      const allFonts = await poppler.listFonts(samplePdfBuffer);
+
+      expect(fonts.length).toBeLessThanOrEqual(allFonts.length);
+    });
+
+    it('should throw PageOutOfRangeError consistently', async () => {
+      await expect(poppler.text(samplePdfBuffer, { pages: '999' })).rejects.toThrow(PageOutOfRangeError);
+      await expect(poppler.split(samplePdfBuffer, { pages: [999] })).rejects.toThrow(PageOutOfRangeError);
+      await expect(poppler.listImages(samplePdfBuffer, { pages: 999 })).rejects.toThrow(PageOutOfRangeError);
+      await expect(poppler.listFonts(samplePdfBuffer, { pages: 'last-999' })).rejects.toThrow(PageOutOfRangeError);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { PdfPoppler, PdfPopplerError, PageOutOfRangeError } from 'pdf-poppler-core';
+
+describe('PostScript Output', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+  let pageCount: number;
+
+  const streamToBuffer = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  };
+
+  // pdftops writes one %%Page comment per page
+  const countPages = (ps: Buffer) => (ps.toString('latin1').match(/^%%Page: /gm) || []).length;
+
+  beforeAll(async () => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+    pageCount = parseInt((await poppler.info(samplePdfBuffer)).pages, 10);
+  });
+
+  describe('poppler.toPostScript()', () => {
+    it('should convert the whole document into one PostScript job', async () => {
+      const ps = await poppler.toPostScript(samplePdfBuffer);
+
+      expect(ps.slice(0, 4).toString()).toBe('%!PS');
+      expect(countPages(ps)).toBe(pageCount);
+    });
+
+    it('should honor the language level', async () => {
+      const level1 = await poppler.toPostScript(samplePdfBuffer, { level: 1 });
+      const level3 = await poppler.toPostScript(samplePdfBuffer, { level: 3 });
+
+      expect(level1.toString('latin1')).toMatch(/^%%LanguageLevel: 1/m);
+      expect(level3.toString('latin1')).toMatch(/^%%LanguageLevel: 3/m);
+    });
+
+    it('should include duplex and paper settings', async () => {
+      const ps = (await poppler.toPostScript(samplePdfBuffer, { paper: 'A4', duplex: true })).toString('latin1');
+
+      expect(ps).toMatch(/Duplex/);
+      expect(ps).toMatch(/^%%DocumentMedia: A4 595 842/m);
+    });
+
+    it('should accept a custom paper size', async () => {
+      const ps = await poppler.toPostScript(samplePdfBuffer, { paper: { width: 400, height: 600 } });
+
+      expect(ps.toString('latin1')).toMatch(/^%%DocumentMedia: \S+ 400 600/m);
+    });
+
+    it('should only include selected pages', async () => {
+      const ps = await poppler.toPostScript(samplePdfBuffer, { pages: 1 });
+
+      expect(countPages(ps)).toBe(1);
+    });
+
+    it('should generate EPS for a single page', async () => {
+      const eps = await poppler.toPostScript(samplePdfBuffer, { eps: true, pages: 1 });
+
+      expect(eps.toString('latin1')).toMatch(/^%!PS-Adobe-3\.0 EPSF-3\.0/);
+    });
+
+    it('should reject invalid options', async () => {
+      await expect(
+        poppler.toPostScript(samplePdfBuffer, { level: 4 as any })
+      ).rejects.toThrow(PdfPopplerError);
+      await expect(
+        poppler.toPostScript(samplePdfBuffer, { pages: [999] })
+      ).rejects.toThrow(PageOutOfRangeError);
+    });
+
+    it('should reject EPS output for several pages', async () => {
+      if (pageCount < 2) return;
+
+      await expect(
+        poppler.toPostScript(samplePdfBuffer, { eps: true })
+      ).rejects.toThrow('EPS output requires a single page');
+    });
+  });
+
+  describe('poppler.toPostScriptStream()', () => {
+    it('should stream the same PostScript job', async () => {
+      const stream = await poppler.toPostScriptStream(samplePdfBuffer, { level: 2 });
+      const ps = await streamToBuffer(stream);
+
+      expect(ps.slice(0, 4).toString()).toBe('%!PS');
+      expect(countPages(ps)).toBe(pageCount);
+    });
+  });
+});
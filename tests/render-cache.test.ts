@@ -0,0 +1,192 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { PdfPoppler, PdfPopplerError, MemoryRenderCache, FileRenderCache, RenderCache } from 'pdf-poppler-core';
+
+/**
+ * Memory cache that counts hits and misses
+ */
+class CountingCache implements RenderCache {
+  readonly cache = new MemoryRenderCache();
+  hits = 0;
+  misses = 0;
+
+  get(key: string): Buffer | undefined {
+    const value = this.cache.get(key);
+    if (value === undefined) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return value;
+  }
+
+  set(key: string, value: Buffer): void {
+    this.cache.set(key, value);
+  }
+
+  has(key: string): boolean {
+    return this.cache.has(key);
+  }
+}
+
+describe('Render Cache', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let samplePdfBuffer: Buffer;
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe('MemoryRenderCache', () => {
+    it('should evict the least recently used entry', () => {
+      const cache = new MemoryRenderCache({ maxEntries: 2 });
+      cache.set('a', Buffer.from('a'));
+      cache.set('b', Buffer.from('b'));
+      cache.get('a');
+      cache.set('c', Buffer.from('c'));
+
+      expect(cache.has('a')).toBe(true);
+      expect(cache.has('b')).toBe(false);
+      expect(cache.has('c')).toBe(true);
+    });
+
+    it('should evict entries beyond maxBytes', () => {
+      const cache = new MemoryRenderCache({ maxBytes: 10 });
+      cache.set('a', Buffer.alloc(6));
+      cache.set('b', Buffer.alloc(6));
+
+      expect(cache.has('a')).toBe(false);
+      expect(cache.get('b')?.length).toBe(6);
+
+      // Too large to cache at all
+      cache.set('c', Buffer.alloc(11));
+      expect(cache.has('c')).toBe(false);
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => new MemoryRenderCache({ maxEntries: 0 })).toThrow(PdfPopplerError);
+    });
+  });
+
+  describe('FileRenderCache', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf-poppler-cache-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should store entries as files', async () => {
+      const cache = new FileRenderCache({ directory });
+      await cache.set('abc', Buffer.from('value'));
+
+      expect(await cache.has('abc')).toBe(true);
+      expect((await cache.get('abc'))?.toString()).toBe('value');
+      expect(await cache.get('missing')).toBeUndefined();
+      expect(fs.readdirSync(directory)).toEqual(['abc']);
+    });
+
+    it('should delete the least recently used files beyond maxBytes', async () => {
+      const cache = new FileRenderCache({ directory, maxBytes: 10 });
+      await cache.set('a', Buffer.alloc(4));
+      fs.utimesSync(path.join(directory, 'a'), new Date(1000), new Date(1000));
+      await cache.set('b', Buffer.alloc(4));
+      await cache.set('c', Buffer.alloc(4));
+
+      expect(await cache.has('a')).toBe(false);
+      expect(await cache.has('b')).toBe(true);
+      expect(await cache.has('c')).toBe(true);
+    });
+
+    it('should only scan the directory on the first write and beyond maxBytes', async () => {
+      const cache = new FileRenderCache({ directory, maxBytes: 10 });
+      const readdir = jest.spyOn(fs.promises, 'readdir');
+
+      try {
+        await cache.set('a', Buffer.alloc(4));
+        await cache.set('a', Buffer.alloc(4));
+        await cache.set('b', Buffer.alloc(4));
+        expect(readdir).toHaveBeenCalledTimes(1);
+
+        await cache.set('c', Buffer.alloc(4));
+        expect(readdir).toHaveBeenCalledTimes(2);
+        expect(fs.readdirSync(directory)).toHaveLength(2);
+      } finally {
+        readdir.mockRestore();
+      }
+    });
+
+    it('should reject keys that are not file names', async () => {
+      const cache = new FileRenderCache({ directory });
+
+      await expect(cache.get('../etc/passwd')).rejects.toThrow('Invalid cache key');
+    });
+  });
+
+  describe('PdfPoppler with a cache', () => {
+    it('should render a page only once', async () => {
+      const cache = new CountingCache();
+      const poppler = new PdfPoppler({ cache });
+
+      const [first] = await poppler.convert(samplePdfBuffer, { page: 1, scale: 100 });
+      const hits = cache.hits;
+      const [second] = await poppler.convert(samplePdfBuffer, { page: 1, scale: 100 });
+
+      expect(second.data).toEqual(first.data);
+      expect(cache.hits).toBeGreaterThan(hits);
+    });
+
+    it('should key entries by options', async () => {
+      const cache = new CountingCache();
+      const poppler = new PdfPoppler({ cache });
+
+      const [small] = await poppler.convert(samplePdfBuffer, { page: 1, scale: 100 });
+      const [large] = await poppler.convert(samplePdfBuffer, { page: 1, scale: 200 });
+
+      expect(large.data).not.toEqual(small.data);
+    });
+
+    it('should share pages between single-page and batch rendering', async () => {
+      const cache = new CountingCache();
+      const poppler = new PdfPoppler({ cache });
+
+      await poppler.convert(samplePdfBuffer, { page: 1, scale: 100 });
+      const misses = cache.misses;
+      const [page] = await poppler.convert(samplePdfBuffer, { pages: [1], scale: 100, batch: true });
+
+      expect(page.page).toBe(1);
+      expect(cache.misses).toBe(misses);
+    });
+
+    it('should cache text and info', async () => {
+      const cache = new CountingCache();
+      const poppler = new PdfPoppler({ cache });
+
+      const text = await poppler.text(samplePdfBuffer);
+      const info = await poppler.info(samplePdfBuffer);
+      const hits = cache.hits;
+
+      expect(await poppler.text(samplePdfBuffer)).toBe(text);
+      expect(await poppler.info(samplePdfBuffer)).toEqual(info);
+      expect(cache.hits).toBe(hits + 2);
+    });
+
+    it('should read file path inputs only once while unchanged', async () => {
+      const poppler = new PdfPoppler({ cache: new CountingCache() });
+      const createReadStream = jest.spyOn(fs, 'createReadStream');
+
+      try {
+        const text = await poppler.text(samplePdfPath);
+        expect(await poppler.text(samplePdfPath)).toBe(text);
+        expect(createReadStream.mock.calls.filter(([file]) => file === samplePdfPath)).toHaveLength(1);
+      } finally {
+        createReadStream.mockRestore();
+      }
+    });
+  });
+});
@@ -139,6 +139,41 @@ describe('PDF Splitting', () => {
     });
   });
 
+  describe('split modes', () => {
+    it('should split pages by re-rendering them', async () => {
+      const pages = await poppler.split(samplePdfBuffer, { pages: [1], mode: 'rerender' });
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0].data.slice(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should give the same page count in both modes', async () => {
+      const lossless = await poppler.split(samplePdfBuffer, { mode: 'lossless' });
+      const rerendered = await poppler.split(samplePdfBuffer, { mode: 'rerender' });
+
+      expect(lossless.map(page => page.page)).toEqual(rerendered.map(page => page.page));
+    });
+
+    it('should reject unknown modes', async () => {
+      await expect(
+        poppler.split(samplePdfBuffer, { mode: 'copy' as any })
+      ).rejects.toThrow('Invalid split mode');
+    });
+  });
+
+  describe('extractPages()', () => {
+    it('should extract the selected pages into one PDF', async () => {
+      const extracted = await poppler.extractPages(samplePdfBuffer, [1, 1]);
+
+      expect(extracted.slice(0, 5).toString()).toBe('%PDF-');
+      expect((await poppler.info(extracted)).pages).toBe('2');
+    });
+
+    it('should require a page selection', async () => {
+      await expect(poppler.extractPages(samplePdfBuffer, undefined as any)).rejects.toThrow('page selection');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should throw InvalidPdfError for invalid input', async () => {
       const invalidBuffer = Buffer.from('not a pdf file');
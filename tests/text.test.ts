@@ -1,7 +1,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { Readable } from 'stream';
-import { PdfPoppler, InvalidPdfError } from 'pdf-poppler-core';
+import { PdfPoppler, InvalidPdfError, PageOutOfRangeError } from 'pdf-poppler-core';
 
 describe('Text Extraction', () => {
   const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
@@ -131,6 +131,65 @@ describe('Text Extraction', () => {
     });
   });
 
+  describe('textLayout()', () => {
+    it('should return pages with dimensions', async () => {
+      const info = await poppler.info(samplePdfBuffer);
+      const layout = await poppler.textLayout(samplePdfBuffer);
+
+      expect(layout.length).toBe(parseInt(info.pages, 10));
+      layout.forEach((page, index) => {
+        expect(page.page).toBe(index + 1);
+        expect(page.width).toBeGreaterThan(0);
+        expect(page.height).toBeGreaterThan(0);
+        expect(Array.isArray(page.flows)).toBe(true);
+      });
+    });
+
+    it('should return words with bounding boxes inside the page', async () => {
+      const [page] = await poppler.textLayout(samplePdfBuffer, { pages: [1] });
+      const words = page.flows.flatMap(flow =>
+        flow.blocks.flatMap(block => block.lines.flatMap(line => line.words))
+      );
+
+      for (const word of words) {
+        expect(typeof word.text).toBe('string');
+        expect(word.xMin).toBeLessThanOrEqual(word.xMax);
+        expect(word.yMin).toBeLessThanOrEqual(word.yMax);
+        expect(word.xMax).toBeLessThanOrEqual(page.width);
+        expect(word.yMax).toBeLessThanOrEqual(page.height);
+      }
+    });
+
+    it('should contain the same words as text()', async () => {
+      const text = await poppler.text(samplePdfBuffer, { page: 1 });
+      const [page] = await poppler.textLayout(samplePdfBuffer, { pages: [1] });
+      const words = page.flows.flatMap(flow =>
+        flow.blocks.flatMap(block => block.lines.flatMap(line => line.words.map(w => w.text)))
+      );
+
+      for (const word of words) {
+        expect(text).toContain(word);
+      }
+    });
+
+    it('should return only the requested pages', async () => {
+      const layout = await poppler.textLayout(samplePdfBuffer, { pages: [1] });
+
+      expect(layout.map(p => p.page)).toEqual([1]);
+    });
+
+    it('should throw PageOutOfRangeError for invalid pages', async () => {
+      await expect(
+        poppler.textLayout(samplePdfBuffer, { pages: [999] })
+      ).rejects.toThrow(PageOutOfRangeError);
+    });
+
+    it('should reject for invalid PDF', async () => {
+      const invalidBuffer = Buffer.from('not a pdf file');
+      await expect(poppler.textLayout(invalidBuffer)).rejects.toThrow();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should throw InvalidPdfError for invalid input', async () => {
       const invalidBuffer = Buffer.from('not a pdf file');
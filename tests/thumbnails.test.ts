@@ -0,0 +1,112 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { PdfPoppler, PdfPopplerError } from 'pdf-poppler-core';
+
+describe('Thumbnails', () => {
+  const samplePdfPath = path.join(__dirname, '..', 'sample.pdf');
+  let poppler: PdfPoppler;
+  let samplePdfBuffer: Buffer;
+
+  // PNG width and height are stored in the IHDR chunk
+  const pngSize = (data: Buffer) => ({ width: data.readUInt32BE(16), height: data.readUInt32BE(20) });
+
+  beforeAll(() => {
+    expect(fs.existsSync(samplePdfPath)).toBe(true);
+    poppler = new PdfPoppler();
+    samplePdfBuffer = fs.readFileSync(samplePdfPath);
+  });
+
+  describe('poppler.thumbnails()', () => {
+    it("should fit pages inside the box with fit 'inside'", async () => {
+      const thumbs = await poppler.thumbnails(samplePdfBuffer, { width: 120, height: 120, pages: 1 });
+      const [info] = await poppler.pageInfo(samplePdfBuffer, 1);
+
+      expect(thumbs).toHaveLength(1);
+      const size = pngSize(thumbs[0].data);
+      expect(Math.max(size.width, size.height)).toBe(120);
+      expect(size.width / size.height).toBeCloseTo(info.width / info.height, 1);
+    });
+
+    it("should pad pages to the box with fit 'contain'", async () => {
+      const [thumb] = await poppler.thumbnails(samplePdfBuffer, {
+        width: 150,
+        height: 100,
+        fit: 'contain',
+        pages: 1,
+      });
+
+      expect(pngSize(thumb.data)).toEqual({ width: 150, height: 100 });
+    });
+
+    it("should crop pages to the box with fit 'cover'", async () => {
+      const [thumb] = await poppler.thumbnails(samplePdfBuffer, {
+        width: 150,
+        height: 100,
+        fit: 'cover',
+        pages: 1,
+      });
+
+      expect(pngSize(thumb.data)).toEqual({ width: 150, height: 100 });
+    });
+
+    it('should render JPEG thumbnails', async () => {
+      const [thumb] = await poppler.thumbnails(samplePdfBuffer, {
+        width: 100,
+        height: 100,
+        format: 'jpeg',
+        quality: 60,
+        pages: 1,
+      });
+
+      expect(thumb.data[0]).toBe(0xff);
+      expect(thumb.data[1]).toBe(0xd8);
+    });
+
+    it('should reject invalid options', async () => {
+      await expect(
+        poppler.thumbnails(samplePdfBuffer, { width: 0, height: 100 })
+      ).rejects.toThrow('Invalid thumbnail width');
+      await expect(
+        poppler.thumbnails(samplePdfBuffer, { width: 100, height: 100, fit: 'fill' as any })
+      ).rejects.toThrow('Invalid thumbnail fit');
+      await expect(
+        poppler.thumbnails(samplePdfBuffer, { width: 100, height: 100, fit: 'contain', format: 'jpeg' })
+      ).rejects.toThrow(PdfPopplerError);
+      await expect(
+        poppler.thumbnails(samplePdfBuffer, { width: 100, height: 100, background: 'white' })
+      ).rejects.toThrow('Invalid color');
+    });
+  });
+
+  describe('poppler.contactSheet()', () => {
+    it('should lay out tiles in a grid', async () => {
+      const pageCount = parseInt((await poppler.info(samplePdfBuffer)).pages, 10);
+      const sheet = await poppler.contactSheet(samplePdfBuffer, {
+        columns: 2,
+        tileWidth: 80,
+        tileHeight: 100,
+        gutter: 5,
+      });
+
+      const rows = Math.ceil(pageCount / 2);
+      expect(pngSize(sheet)).toEqual({ width: 5 + 2 * 85, height: 5 + rows * 105 });
+    });
+
+    it('should reserve space for labels', async () => {
+      const options = { pages: 1, columns: 1, tileWidth: 80, tileHeight: 100, gutter: 0 };
+      const plain = await poppler.contactSheet(samplePdfBuffer, options);
+      const labelled = await poppler.contactSheet(samplePdfBuffer, { ...options, labels: true });
+
+      expect(pngSize(labelled).height).toBeGreaterThan(pngSize(plain).height);
+    });
+
+    it('should reject invalid layouts', async () => {
+      await expect(
+        poppler.contactSheet(samplePdfBuffer, { columns: 0 })
+      ).rejects.toThrow('Invalid columns');
+      await expect(
+        poppler.contactSheet(samplePdfBuffer, { gutter: -1 })
+      ).rejects.toThrow('Invalid gutter');
+    });
+  });
+});